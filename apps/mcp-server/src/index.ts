@@ -1,17 +1,20 @@
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import * as fs from 'fs';
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
 import {
     CallToolRequestSchema,
     ListToolsRequestSchema,
+    ServerRequest,
+    ServerNotification,
 } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
 import { logger, setLogLevel, GitHubAssetResolver } from "@virtualbox-mcp/shared-utils";
-import { VagrantClient } from "@virtualbox-mcp/vagrant-client";
+import { VagrantClient, SimulatedBackend, OutputChunk, parsePortRange } from "@virtualbox-mcp/vagrant-client";
 import { SyncManager, BackgroundTaskManager, OperationTracker, GuardrailsManager } from "@virtualbox-mcp/sync-engine";
 import { handleToolError } from "./error-handler.js";
 import { SequentialThinkingManager } from "./sequential-thinking.js";
-import { TOOLS, CreateVMSchema, GetVMStatusSchema, ResizeVMResourcesSchema } from "./tools.js";
+import { TOOLS, CreateVMSchema, GetVMStatusSchema, ResizeVMResourcesSchema, ProvisionerSchema, VMLifecycleSchema } from "./tools.js";
 import { UrlGuard } from "./utils/UrlGuard";
 
 // Main Server Class
@@ -45,10 +48,17 @@ export class McpServer {
 
         this.initializationPromise = (async () => {
             logger.info("[BOOTSTRAP] Initializing managers...");
-            this.vagrant = new VagrantClient();
-            this.syncManager = new SyncManager(this.vagrant);
-            this.taskManager = new BackgroundTaskManager(this.vagrant);
+            // VAGRANT_MCP_BACKEND=simulated runs every tool against an in-memory hypervisor
+            const backend = process.env.VAGRANT_MCP_BACKEND === 'simulated' ? new SimulatedBackend() : undefined;
+            // VAGRANT_MCP_PORT_RANGE (e.g. 20000-20999) is where taken host ports are moved to
+            const portRange = process.env.VAGRANT_MCP_PORT_RANGE ? parsePortRange(process.env.VAGRANT_MCP_PORT_RANGE) : undefined;
+            this.vagrant = new VagrantClient(process.env.VAGRANT_MCP_VMS_DIR, backend, { portRange });
             this.operationTracker = new OperationTracker(this.vagrant);
+            this.syncManager = new SyncManager(this.vagrant, this.operationTracker);
+            // Restarts the persisted sync pairs' watchers without holding up the first tool call
+            this.syncManager.restoreSyncConfigs()
+                .catch(error => logger.error("[BOOTSTRAP] Failed to restore sync configs", error));
+            this.taskManager = new BackgroundTaskManager(this.vagrant);
             this.guardrails = new GuardrailsManager(this.vagrant);
             this.thinkingManager = new SequentialThinkingManager();
             logger.info("[BOOTSTRAP] Managers ready.");
@@ -62,7 +72,7 @@ export class McpServer {
             return { tools: TOOLS };
         });
 
-        this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+        this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
             const { name, arguments: args } = request.params;
 
             // Zero-Trust URL Validation
@@ -76,7 +86,7 @@ export class McpServer {
             }
 
             await this.ensureInitialized();
-            const result = await this.executeTool(name, args);
+            const result = await this.executeTool(name, args, extra);
 
             // Global Interceptor for Screenshot (if applicable)
             const vmName = (args as any)?.vm_name;
@@ -106,14 +116,85 @@ export class McpServer {
         });
     }
 
-    private async executeTool(name: string, args: any) {
+    /**
+     * Streams command output to the client as progress notifications when the
+     * request carries a progress token. The chunk text goes in `message`;
+     * `progress` counts the chunks sent so far.
+     */
+    private createOutputStreamer(extra: RequestHandlerExtra<ServerRequest, ServerNotification>): ((chunk: OutputChunk) => void) | undefined {
+        const progressToken = extra._meta?.progressToken;
+        if (progressToken === undefined) return undefined;
+
+        let progress = 0;
+        return (chunk: OutputChunk) => {
+            progress++;
+            extra.sendNotification({
+                method: "notifications/progress",
+                params: { progressToken, progress, message: `[${chunk.stream}] ${chunk.data}` }
+            }).catch((error) => logger.debug(`Failed to send output notification: ${error.message}`));
+        };
+    }
+
+    private async executeTool(name: string, args: any, extra: RequestHandlerExtra<ServerRequest, ServerNotification>) {
         try {
-            if (name === "create_vm" || name === "create_dev_vm") {
+            if (name === "create_vm") {
                 const { name: vmName, box, gui_mode } = CreateVMSchema.parse(args);
                 await this.vagrant!.createVM(vmName, box, gui_mode);
                 return { content: [{ type: "text", text: `VM ${vmName} creation initiated.` }] };
             }
 
+            if (name === "create_dev_vm") {
+                const schema = z.object({
+                    name: z.string(),
+                    project_path: z.string(),
+                    cpu: z.number().optional(),
+                    memory: z.number().optional(),
+                    box: z.string().optional(),
+                    sync_type: z.string().optional(),
+                    ports: z.array(z.object({ guest: z.number(), host: z.number() })).optional(),
+                    exclude_patterns: z.array(z.string()).optional(),
+                    use_ignore_files: z.boolean().optional(),
+                    gui_mode: z.boolean().optional(),
+                    provisioners: z.array(ProvisionerSchema).optional()
+                });
+                const config = schema.parse(args);
+                const created = await this.vagrant!.createVMAdvanced(config.name, config.project_path, {
+                    box: config.box,
+                    cpu: config.cpu,
+                    memory: config.memory,
+                    ports: config.ports,
+                    syncType: config.sync_type,
+                    excludePatterns: config.exclude_patterns,
+                    useIgnoreFiles: config.use_ignore_files,
+                    guiMode: config.gui_mode,
+                    provisioners: config.provisioners
+                });
+                const moved = created.ports.filter(p => p.hostPort !== p.requestedPort);
+                return {
+                    content: [{
+                        type: "text", text: JSON.stringify({
+                            message: `VM ${config.name} creation initiated.` +
+                                (moved.length > 0 ? ` Host ports taken by other VMs or processes were reassigned: ${moved.map(p => `${p.requestedPort} -> ${p.hostPort}`).join(", ")}` : ""),
+                            ports: created.ports.map(p => ({ guest: p.guestPort, host: p.hostPort, requested_host: p.requestedPort }))
+                        }, null, 2)
+                    }]
+                };
+            }
+
+            if (name === "provision_vm") {
+                const schema = z.object({
+                    vm_name: z.string(),
+                    provisioners: z.array(z.string()).optional(),
+                    timeout: z.number().optional()
+                });
+                const { vm_name, provisioners, timeout } = schema.parse(args);
+                const result = await this.vagrant!.provisionVM(vm_name, {
+                    provisioners, timeout,
+                    onOutput: this.createOutputStreamer(extra)
+                });
+                return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+            }
+
             if (name === "get_vm_status") {
                 const { name: vmName } = GetVMStatusSchema.parse(args);
                 const status = await this.vagrant!.getVMStatus(vmName);
@@ -128,9 +209,45 @@ export class McpServer {
             if (name === "destroy_vm") {
                 const { name: vmName } = z.object({ name: z.string() }).parse(args);
                 await this.vagrant!.destroyVM(vmName);
+                // Drops the sync pairs (and state files) of the VM, or of all machines of a destroyed environment
+                const synced = new Set(this.syncManager!.listSyncConfigs().map(c => c.vmName)
+                    .filter(n => n === vmName || n.startsWith(`${vmName}/`)));
+                for (const syncedVM of synced) {
+                    await this.syncManager!.removeSync(syncedVM);
+                }
                 return { content: [{ type: "text", text: `VM ${vmName} destroyed.` }] };
             }
 
+            if (name === "halt_vm") {
+                const { name: vmName, force, timeout } = VMLifecycleSchema.parse(args);
+                const result = await this.vagrant!.haltVM(vmName, { force, timeout });
+                return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+            }
+
+            if (name === "start_vm") {
+                const { name: vmName, force, timeout } = VMLifecycleSchema.parse(args);
+                const result = await this.vagrant!.startVM(vmName, { force, timeout });
+                return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+            }
+
+            if (name === "reload_vm") {
+                const { name: vmName, force, timeout } = VMLifecycleSchema.parse(args);
+                const result = await this.vagrant!.reloadVM(vmName, { force, timeout });
+                return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+            }
+
+            if (name === "suspend_vm") {
+                const { name: vmName, force, timeout } = VMLifecycleSchema.parse(args);
+                const result = await this.vagrant!.suspendVM(vmName, { force, timeout });
+                return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+            }
+
+            if (name === "resume_vm") {
+                const { name: vmName, force, timeout } = VMLifecycleSchema.parse(args);
+                const result = await this.vagrant!.resumeVM(vmName, { force, timeout });
+                return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+            }
+
             if (name === "exec_command") {
                 const schema = z.object({
                     vm_name: z.string(),
@@ -147,7 +264,10 @@ export class McpServer {
                     return { content: [{ type: "text", text: `Command injected into ${vm_name} console.` }] };
                 }
 
-                const result = await this.vagrant!.executeCommand(vm_name, command, { timeout, username, password });
+                const result = await this.vagrant!.executeCommand(vm_name, command, {
+                    timeout, username, password,
+                    onOutput: this.createOutputStreamer(extra)
+                });
 
                 // Wait for UI to update then capture screenshot
                 await new Promise(r => setTimeout(r, 2000));
@@ -185,6 +305,26 @@ export class McpServer {
                 return { content: [{ type: "text", text: `File uploaded to ${destination} on ${vm_name}` }] };
             }
 
+            if (name === "download_file") {
+                const schema = z.object({
+                    vm_name: z.string(),
+                    source: z.string(),
+                    destination: z.string(),
+                    recursive: z.boolean().optional(),
+                    verify_checksum: z.boolean().optional(),
+                    username: z.string().optional(),
+                    password: z.string().optional()
+                });
+                const { vm_name, source, destination, recursive, verify_checksum, username, password } = schema.parse(args);
+                const result = await this.vagrant!.downloadFile(vm_name, source, destination, {
+                    recursive,
+                    verifyChecksum: verify_checksum,
+                    username,
+                    password
+                });
+                return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+            }
+
             if (name === "search_files") {
                 const schema = z.object({ vm_name: z.string(), query: z.string(), path: z.string().optional() });
                 const { vm_name, query, path } = schema.parse(args);
@@ -228,28 +368,141 @@ export class McpServer {
                 const { vm_name, guest_port, host_port, username, password } = schema.parse(args);
                 const vmResult = await this.vagrant!.checkPortInVM(vm_name, guest_port, { username, password });
                 let hostResult = null;
-                if (host_port) hostResult = await this.vagrant!.checkHostPort(host_port);
+                const hostPort = host_port ?? vmResult.forwardedBy?.hostPort;
+                if (hostPort) hostResult = await this.vagrant!.checkHostPort(hostPort);
                 return { content: [{ type: "text", text: JSON.stringify({ vm_port: vmResult, host_port: hostResult }, null, 2) }] };
             }
 
+            if (name === "add_port_forward") {
+                const schema = z.object({
+                    vm_name: z.string(),
+                    guest_port: z.number(),
+                    host_port: z.number(),
+                    protocol: z.enum(["tcp", "udp"]).optional(),
+                    host_ip: z.string().optional(),
+                    rule_name: z.string().optional()
+                });
+                const { vm_name, guest_port, host_port, protocol, host_ip, rule_name } = schema.parse(args);
+                const result = await this.vagrant!.addPortForward(vm_name, {
+                    guestPort: guest_port, hostPort: host_port, protocol, hostIp: host_ip, ruleName: rule_name
+                });
+                return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+            }
+
+            if (name === "remove_port_forward") {
+                const schema = z.object({
+                    vm_name: z.string(),
+                    rule_name: z.string().optional(),
+                    guest_port: z.number().optional(),
+                    protocol: z.enum(["tcp", "udp"]).optional()
+                });
+                const { vm_name, rule_name, guest_port, protocol } = schema.parse(args);
+                const result = await this.vagrant!.removePortForward(vm_name, { ruleName: rule_name, guestPort: guest_port, protocol });
+                return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+            }
+
+            if (name === "list_port_forwards") {
+                const { vm_name } = z.object({ vm_name: z.string() }).parse(args);
+                const result = await this.vagrant!.listPortForwards(vm_name);
+                return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+            }
+
+            if (name === "list_host_ports") {
+                const { vm_name } = z.object({ vm_name: z.string().optional() }).parse(args);
+                const allocations = this.vagrant!.listHostPorts(vm_name);
+                return { content: [{ type: "text", text: JSON.stringify({ allocations }, null, 2) }] };
+            }
+
+            if (name === "list_sync_configs") {
+                const configs = this.syncManager!.listSyncConfigs();
+                return { content: [{ type: "text", text: JSON.stringify({ configs }, null, 2) }] };
+            }
+
             if (name === "sync_status") {
-                const schema = z.object({ vm_name: z.string() });
-                const { vm_name } = schema.parse(args);
-                const status = await this.syncManager!.getSyncStatus(vm_name);
+                const schema = z.object({ vm_name: z.string(), pair_id: z.string().optional() });
+                const { vm_name, pair_id } = schema.parse(args);
+                const status = await this.syncManager!.getSyncStatus(vm_name, pair_id);
                 return { content: [{ type: "text", text: JSON.stringify(status || { status: 'idle' }, null, 2) }] };
             }
 
+            if (name === "sync_history") {
+                const schema = z.object({
+                    vm_name: z.string(),
+                    pair_id: z.string().optional(),
+                    path: z.string().optional(),
+                    since: z.coerce.date().optional(),
+                    until: z.coerce.date().optional(),
+                    limit: z.number().int().min(1).default(100)
+                });
+                const { vm_name, pair_id, path: filePath, since, until, limit } = schema.parse(args);
+                const events = this.syncManager!.getSyncHistory(vm_name, { pairId: pair_id, path: filePath, since, until, limit });
+                return { content: [{ type: "text", text: JSON.stringify({ events }, null, 2) }] };
+            }
+
             if (name === "resolve_conflict") {
                 const schema = z.object({
                     vm_name: z.string(),
                     file_path: z.string(),
-                    resolution: z.enum(["use_host", "use_vm"])
+                    resolution: z.enum(["use_host", "use_vm"]),
+                    pair_id: z.string().optional()
                 });
-                const { vm_name, file_path, resolution } = schema.parse(args);
-                await this.syncManager!.resolveConflict(vm_name, file_path, resolution);
+                const { vm_name, file_path, resolution, pair_id } = schema.parse(args);
+                await this.syncManager!.resolveConflict(vm_name, file_path, resolution, pair_id);
                 return { content: [{ type: "text", text: `Conflict for ${file_path} resolved using ${resolution}` }] };
             }
 
+            if (name === "pause_sync") {
+                const schema = z.object({ vm_name: z.string(), pair_id: z.string().optional() });
+                const { vm_name, pair_id } = schema.parse(args);
+                const pairs = await this.syncManager!.pauseSync(vm_name, pair_id);
+                return { content: [{ type: "text", text: `Paused sync pairs ${pairs.join(", ")} for ${vm_name}` }] };
+            }
+
+            if (name === "resume_sync") {
+                const schema = z.object({
+                    vm_name: z.string(),
+                    pair_id: z.string().optional(),
+                    catch_up: z.boolean().optional()
+                });
+                const { vm_name, pair_id, catch_up } = schema.parse(args);
+                const pairs = await this.syncManager!.resumeSync(vm_name, pair_id, { catchUp: catch_up });
+                if (pairs.length === 0) {
+                    return { content: [{ type: "text", text: `No paused sync pairs for ${vm_name}` }] };
+                }
+                return { content: [{ type: "text", text: `Resumed sync pairs ${pairs.join(", ")} for ${vm_name}` }] };
+            }
+
+            if (name === "remove_sync") {
+                const schema = z.object({ vm_name: z.string(), pair_id: z.string().optional() });
+                const { vm_name, pair_id } = schema.parse(args);
+                const pairs = await this.syncManager!.removeSync(vm_name, pair_id);
+                return { content: [{ type: "text", text: `Removed sync pairs ${pairs.join(", ")} for ${vm_name}` }] };
+            }
+
+            if (name === "create_environment") {
+                const schema = z.object({
+                    name: z.string(),
+                    box: z.string().optional(),
+                    subnet: z.string().optional(),
+                    machines: z.array(z.object({
+                        name: z.string(),
+                        box: z.string().optional(),
+                        cpu: z.number().optional(),
+                        memory: z.number().optional(),
+                        ip: z.string().optional(),
+                        ports: z.array(z.object({ guest: z.number(), host: z.number() })).optional(),
+                        depends_on: z.array(z.string()).optional(),
+                        provisioners: z.array(ProvisionerSchema).optional()
+                    })).min(1)
+                });
+                const { name: envName, box, subnet, machines } = schema.parse(args);
+                const result = await this.vagrant!.createEnvironment(envName, {
+                    box, subnet,
+                    machines: machines.map(({ depends_on, ...m }) => ({ ...m, dependsOn: depends_on }))
+                });
+                return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+            }
+
             if (name === "ensure_dev_vm") {
                 const schema = z.object({ name: z.string(), project_path: z.string() });
                 const { name: vmName, project_path } = schema.parse(args);
@@ -273,7 +526,10 @@ export class McpServer {
                 });
                 const { vm_name, command, sync_before, sync_after, username, password } = schema.parse(args);
                 if (sync_before) await this.syncManager!.syncToVMFull(vm_name);
-                const result = await this.vagrant!.executeCommand(vm_name, command, { username, password });
+                const result = await this.vagrant!.executeCommand(vm_name, command, {
+                    username, password,
+                    onOutput: this.createOutputStreamer(extra)
+                });
                 if (sync_after) await this.syncManager!.syncFromVMFull(vm_name);
                 return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
             }
@@ -303,16 +559,28 @@ export class McpServer {
             }
 
             if (name === "sync_to_vm") {
-                const schema = z.object({ vm_name: z.string() });
-                const { vm_name } = schema.parse(args);
-                const result = await this.syncManager!.syncToVMFull(vm_name);
+                const schema = z.object({ vm_name: z.string(), pair_id: z.string().optional() });
+                const { vm_name, pair_id } = schema.parse(args);
+                const result = await this.syncManager!.syncToVMFull(vm_name, pair_id);
                 return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
             }
 
             if (name === "sync_from_vm") {
-                const schema = z.object({ vm_name: z.string() });
-                const { vm_name } = schema.parse(args);
-                const result = await this.syncManager!.syncFromVMFull(vm_name);
+                const schema = z.object({ vm_name: z.string(), pair_id: z.string().optional() });
+                const { vm_name, pair_id } = schema.parse(args);
+                const result = await this.syncManager!.syncFromVMFull(vm_name, pair_id);
+                return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+            }
+
+            if (name === "sync_diff") {
+                const schema = z.object({
+                    vm_name: z.string(),
+                    pair_id: z.string().optional(),
+                    direction: z.enum(["to_vm", "from_vm"]).optional(),
+                    file_path: z.string().optional()
+                });
+                const { vm_name, pair_id, direction, file_path } = schema.parse(args);
+                const result = await this.syncManager!.diffSync(vm_name, { direction, filePath: file_path, pairId: pair_id });
                 return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
             }
 
@@ -393,16 +661,26 @@ export class McpServer {
 
             if (name === "configure_sync") {
                 const schema = z.object({
-                    vm_name: z.string(), host_path: z.string(), guest_path: z.string(),
+                    vm_name: z.string(), pair_id: z.string().optional(), host_path: z.string(), guest_path: z.string(),
                     direction: z.enum(["bidirectional", "to_vm", "from_vm"]),
-                    exclude_patterns: z.array(z.string()).optional()
+                    exclude_patterns: z.array(z.string()).optional(),
+                    use_ignore_files: z.boolean().optional(),
+                    max_bulk_deletions: z.number().int().min(0).optional(),
+                    poll_interval_ms: z.number().int().min(1000).optional(),
+                    symlinks: z.enum(["follow", "copy", "skip"]).optional(),
+                    preserve_ownership: z.boolean().optional()
                 });
                 const config = schema.parse(args);
                 await this.syncManager!.configureSync({
-                    vmName: config.vm_name, hostPath: config.host_path, guestPath: config.guest_path,
-                    direction: config.direction, excludePatterns: config.exclude_patterns
+                    vmName: config.vm_name, id: config.pair_id, hostPath: config.host_path, guestPath: config.guest_path,
+                    direction: config.direction, excludePatterns: config.exclude_patterns,
+                    useIgnoreFiles: config.use_ignore_files,
+                    maxBulkDeletions: config.max_bulk_deletions,
+                    pollIntervalMs: config.poll_interval_ms,
+                    symlinks: config.symlinks,
+                    preserveOwnership: config.preserve_ownership
                 });
-                return { content: [{ type: "text", text: `Sync configured for ${config.vm_name}` }] };
+                return { content: [{ type: "text", text: `Sync pair ${config.pair_id || "default"} configured for ${config.vm_name}` }] };
             }
 
             if (name === "kill_process") {
@@ -548,12 +826,102 @@ export class McpServer {
                 return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
             }
 
+            if (name === "resize_disk") {
+                const schema = z.object({
+                    vm_name: z.string(),
+                    size_gb: z.number().positive(),
+                    disk: z.string().optional(),
+                    username: z.string().optional(),
+                    password: z.string().optional()
+                });
+                const { vm_name, size_gb, disk, username, password } = schema.parse(args);
+                const result = await this.vagrant!.resizeDisk(vm_name, { sizeGB: size_gb, disk, username, password });
+                return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+            }
+
+            if (name === "attach_disk") {
+                const schema = z.object({
+                    vm_name: z.string(),
+                    size_gb: z.number().positive().optional(),
+                    path: z.string().optional(),
+                    controller: z.string().optional(),
+                    port: z.number().int().nonnegative().optional()
+                });
+                const { vm_name, size_gb, ...options } = schema.parse(args);
+                const result = await this.vagrant!.attachDisk(vm_name, { sizeGB: size_gb, ...options });
+                return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+            }
+
+            if (name === "detach_disk") {
+                const schema = z.object({ vm_name: z.string(), disk: z.string(), delete_image: z.boolean().optional() });
+                const { vm_name, disk, delete_image } = schema.parse(args);
+                const result = await this.vagrant!.detachDisk(vm_name, { disk, deleteImage: delete_image });
+                return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+            }
+
             if (name === "package_box") {
                 const { vm_name, output_file } = z.object({ vm_name: z.string(), output_file: z.string().optional() }).parse(args);
                 const result = await this.vagrant!.packageVM(vm_name, output_file);
                 return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
             }
 
+            if (name === "clone_vm") {
+                const schema = z.object({
+                    vm_name: z.string(),
+                    clone_name: z.string(),
+                    snapshot_name: z.string().optional(),
+                    linked: z.boolean().optional()
+                });
+                const { vm_name, clone_name, snapshot_name, linked } = schema.parse(args);
+                const result = await this.vagrant!.cloneVM(vm_name, clone_name, { snapshot: snapshot_name, linked });
+                return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+            }
+
+            if (name === "list_boxes") {
+                const result = await this.vagrant!.listBoxes();
+                return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+            }
+
+            if (name === "add_box") {
+                const schema = z.object({
+                    source: z.string(),
+                    name: z.string().optional(),
+                    version: z.string().optional(),
+                    provider: z.string().optional(),
+                    force: z.boolean().optional()
+                });
+                const { source, ...options } = schema.parse(args);
+                const result = await this.vagrant!.addBox(source, {
+                    ...options,
+                    onOutput: this.createOutputStreamer(extra)
+                });
+                return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+            }
+
+            if (name === "remove_box") {
+                const schema = z.object({
+                    name: z.string(),
+                    version: z.string().optional(),
+                    provider: z.string().optional(),
+                    all_versions: z.boolean().optional(),
+                    force: z.boolean().optional()
+                });
+                const { name: boxName, version, provider, all_versions, force } = schema.parse(args);
+                const result = await this.vagrant!.removeBox(boxName, { version, provider, allVersions: all_versions, force });
+                return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+            }
+
+            if (name === "outdated_boxes") {
+                const result = await this.vagrant!.outdatedBoxes();
+                return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+            }
+
+            if (name === "prune_boxes") {
+                const { dry_run } = z.object({ dry_run: z.boolean().optional() }).parse(args);
+                const result = await this.vagrant!.pruneBoxes({ dryRun: dry_run });
+                return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+            }
+
             if (name === "inject_secrets") {
                 const { vm_name, secrets, username, password } = z.object({
                     vm_name: z.string(),
@@ -639,6 +1007,8 @@ export class McpServer {
         try {
             fs.appendFileSync('C:\\FastMCP\\boot.log', `[${new Date().toISOString()}] Server connected to transport.\n`);
         } catch (e) { }
+        // Persisted sync pairs resume at boot rather than on the first tool call
+        this.ensureInitialized().catch(error => logger.error("[BOOTSTRAP] Initialization failed", error));
     }
 }
 
@@ -17,6 +17,46 @@ export const ResizeVMResourcesSchema = z.object({
     gui_mode: z.boolean().optional(),
 });
 
+export const VMLifecycleSchema = z.object({
+    name: z.string(),
+    force: z.boolean().optional(),
+    timeout: z.number().optional(),
+});
+
+export const ProvisionerSchema = z.object({
+    name: z.string().optional(),
+    type: z.enum(["shell", "file", "ansible_local"]),
+    inline: z.string().optional(),
+    path: z.string().optional(),
+    args: z.array(z.string()).optional(),
+    privileged: z.boolean().optional(),
+    source: z.string().optional(),
+    destination: z.string().optional(),
+    playbook: z.string().optional(),
+    run: z.enum(["once", "always", "never"]).optional(),
+});
+
+const PROVISIONERS_INPUT = {
+    type: "array",
+    description: "Provisioners, run in order on first boot and by provision_vm",
+    items: {
+        type: "object",
+        properties: {
+            name: { type: "string", description: "Step name, used by provision_vm to select steps" },
+            type: { type: "string", enum: ["shell", "file", "ansible_local"] },
+            inline: { type: "string", description: "shell: script content" },
+            path: { type: "string", description: "shell: host path of a script" },
+            args: { type: "array", items: { type: "string" }, description: "shell: script arguments" },
+            privileged: { type: "boolean", description: "shell: run as root (default: true)" },
+            source: { type: "string", description: "file: host path" },
+            destination: { type: "string", description: "file: guest path" },
+            playbook: { type: "string", description: "ansible_local: playbook path in the guest project folder" },
+            run: { type: "string", enum: ["once", "always", "never"] }
+        },
+        required: ["type"]
+    }
+};
+
 export const TOOLS = [
     {
         name: "create_vm",
@@ -52,11 +92,76 @@ export const TOOLS = [
     },
     {
         name: "destroy_vm",
-        description: "Destroy a Vagrant VM (force)",
+        description: "Destroy a Vagrant VM (force) and remove its sync pairs",
+        inputSchema: {
+            type: "object",
+            properties: {
+                name: { type: "string" },
+            },
+            required: ["name"],
+        },
+    },
+    {
+        name: "halt_vm",
+        description: "Shut a VM down and wait until it is powered off. Returns the resulting state.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                name: { type: "string" },
+                force: { type: "boolean", description: "Power off immediately instead of a guest shutdown" },
+                timeout: { type: "number", description: "Milliseconds to wait for the target state (default: 300000)" }
+            },
+            required: ["name"],
+        },
+    },
+    {
+        name: "start_vm",
+        description: "Boot a VM and wait until it is running. A suspended VM is resumed.. Returns the resulting state.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                name: { type: "string" },
+                force: { type: "boolean", description: "Discard a suspended VM's saved state and boot it fresh" },
+                timeout: { type: "number", description: "Milliseconds to wait for the target state (default: 300000)" }
+            },
+            required: ["name"],
+        },
+    },
+    {
+        name: "reload_vm",
+        description: "Restart a VM, applying Vagrantfile changes, and wait until it is running. Returns the resulting state.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                name: { type: "string" },
+                force: { type: "boolean", description: "Power off instead of a guest shutdown before booting" },
+                timeout: { type: "number", description: "Milliseconds to wait for the target state (default: 300000)" }
+            },
+            required: ["name"],
+        },
+    },
+    {
+        name: "suspend_vm",
+        description: "Save a running VM's state to disk and wait until it is suspended. Returns the resulting state.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                name: { type: "string" },
+                force: { type: "boolean", description: "Power the VM off if its state cannot be saved" },
+                timeout: { type: "number", description: "Milliseconds to wait for the target state (default: 300000)" }
+            },
+            required: ["name"],
+        },
+    },
+    {
+        name: "resume_vm",
+        description: "Restore a suspended VM and wait until it is running. Returns the resulting state.",
         inputSchema: {
             type: "object",
             properties: {
                 name: { type: "string" },
+                force: { type: "boolean", description: "Boot the VM even if it was not suspended" },
+                timeout: { type: "number", description: "Milliseconds to wait for the target state (default: 300000)" }
             },
             required: ["name"],
         },
@@ -92,6 +197,23 @@ export const TOOLS = [
             required: ["vm_name", "source", "destination"],
         },
     },
+    {
+        name: "download_file",
+        description: "Download a file, directory or glob from the VM to the host. Binary-safe; SHA-256 checksums are verified by default. Directories and glob matches are copied into the destination directory under their own names.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                vm_name: { type: "string" },
+                source: { type: "string", description: "Path or glob in the VM (e.g. /var/log/*.log)" },
+                destination: { type: "string", description: "Path on the host" },
+                recursive: { type: "boolean", description: "Download directories recursively (default: false)" },
+                verify_checksum: { type: "boolean", description: "Compare SHA-256 of guest and host copies (default: true)" },
+                username: { type: "string" },
+                password: { type: "string" },
+            },
+            required: ["vm_name", "source", "destination"],
+        },
+    },
     {
         name: "search_files",
         description: "Search for files inside the VM (using grep)",
@@ -109,45 +231,114 @@ export const TOOLS = [
     },
     {
         name: "configure_sync",
-        description: "Configure file synchronization and watchers",
+        description: "Create or update a named sync pair (several per VM) and its watchers. to_vm and bidirectional watch the host; from_vm and bidirectional watch the guest (inotifywait, or polling when it is not installed). Host changes are batched and uploaded as one archive, tracked as an upload operation (list_active_operations). File modes and symlinks are kept",
         inputSchema: {
             type: "object",
             properties: {
                 vm_name: { type: "string" },
+                pair_id: { type: "string", description: "Name of the sync pair; configuring an existing pair updates it (default: \"default\")" },
                 host_path: { type: "string" },
                 guest_path: { type: "string" },
                 direction: { type: "string", enum: ["bidirectional", "to_vm", "from_vm"] },
-                exclude_patterns: { type: "array", items: { type: "string" } },
+                exclude_patterns: { type: "array", items: { type: "string" }, description: "Gitignore-style patterns relative to host_path (e.g. *.log, dist/, !keep.log)" },
+                use_ignore_files: { type: "boolean", description: "Also apply the .gitignore and .vmsyncignore in host_path (default: false)" },
+                max_bulk_deletions: { type: "number", description: "Host deletions above this count within one batch are held back and listed in sync_status (default: 50)" },
+                poll_interval_ms: { type: "number", description: "Guest polling interval in milliseconds when inotifywait is unavailable (default: 10000)" },
+                symlinks: { type: "string", enum: ["follow", "copy", "skip"], description: "Host symlinks: sync their targets' content (follow), recreate them as links in the guest (copy), or leave them out (default: copy)" },
+                preserve_ownership: { type: "boolean", description: "Also give guest files the numeric owner and group of the host files; needs passwordless sudo in the guest (default: false)" },
                 username: { type: "string" },
                 password: { type: "string" },
             },
             required: ["vm_name", "host_path", "guest_path", "direction"],
         },
     },
+    {
+        name: "list_sync_configs",
+        description: "List the configured sync pairs with their status, last sync time and number of tracked files. Pairs and their file manifests are persisted and restored when the server starts",
+        inputSchema: {
+            type: "object",
+            properties: {},
+        },
+    },
+    {
+        name: "sync_history",
+        description: "Recent file transfers of a VM's sync pairs, newest first: path, direction, action, bytes, MD5, duration and error. The last 1000 transfers per VM are kept while the server runs",
+        inputSchema: {
+            type: "object",
+            properties: {
+                vm_name: { type: "string" },
+                pair_id: { type: "string", description: "Only transfers of this sync pair" },
+                path: { type: "string", description: "Path relative to the sync root; a directory matches the files under it" },
+                since: { type: "string", description: "Only transfers at or after this time (ISO 8601)" },
+                until: { type: "string", description: "Only transfers at or before this time (ISO 8601)" },
+                limit: { type: "number", default: 100 },
+            },
+            required: ["vm_name"],
+        },
+    },
     {
         name: "sync_status",
-        description: "Get the current alignment status of the sync engine",
+        description: "Get the current alignment status of the sync engine, including conflicts (files changed on both sides, or deleted on the host and changed in the VM, with host and guest hashes, sizes and mtimes)",
         inputSchema: {
             type: "object",
             properties: {
                 vm_name: { type: "string" },
+                pair_id: { type: "string", description: "Sync pair (required when the VM has several)" },
             },
             required: ["vm_name"],
         },
     },
     {
         name: "resolve_conflict",
-        description: "Resolve a file sync conflict",
+        description: "Resolve a file sync conflict. use_host on a path listed in blockedDeletions deletes it in the VM",
         inputSchema: {
             type: "object",
             properties: {
                 vm_name: { type: "string" },
                 file_path: { type: "string" },
                 resolution: { type: "string", enum: ["use_host", "use_vm"] },
+                pair_id: { type: "string", description: "Sync pair of the path (default: the pair reporting it)" },
             },
             required: ["vm_name", "file_path", "resolution"],
         },
     },
+    {
+        name: "pause_sync",
+        description: "Stop a VM's sync watchers (e.g. during a large npm install) until resume_sync. Pending changes are dropped",
+        inputSchema: {
+            type: "object",
+            properties: {
+                vm_name: { type: "string" },
+                pair_id: { type: "string", description: "Sync pair to pause (default: all pairs of the VM)" },
+            },
+            required: ["vm_name"],
+        },
+    },
+    {
+        name: "resume_sync",
+        description: "Restart the watchers of paused sync pairs, optionally syncing what changed while paused",
+        inputSchema: {
+            type: "object",
+            properties: {
+                vm_name: { type: "string" },
+                pair_id: { type: "string", description: "Sync pair to resume (default: all paused pairs of the VM)" },
+                catch_up: { type: "boolean", description: "Sync the changes made while paused (default: true)" },
+            },
+            required: ["vm_name"],
+        },
+    },
+    {
+        name: "remove_sync",
+        description: "Stop and forget a VM's sync pairs and their manifests. Files on host and guest are kept",
+        inputSchema: {
+            type: "object",
+            properties: {
+                vm_name: { type: "string" },
+                pair_id: { type: "string", description: "Sync pair to remove (default: all pairs of the VM)" },
+            },
+            required: ["vm_name"],
+        },
+    },
     {
         name: "create_dev_vm",
         description: "Create and configure a development VM with Vagrant (advanced)",
@@ -161,12 +352,57 @@ export const TOOLS = [
                 box: { type: "string", default: "ubuntu/focal64" },
                 sync_type: { type: "string", default: "rsync" },
                 ports: { type: "array", items: { type: "object", properties: { guest: { type: "number" }, host: { type: "number" } } } },
-                exclude_patterns: { type: "array", items: { type: "string" } },
+                exclude_patterns: { type: "array", items: { type: "string" }, description: "Gitignore-style patterns relative to project_path, used as rsync excludes" },
+                use_ignore_files: { type: "boolean", description: "Also exclude what project_path's .gitignore and .vmsyncignore list (default: false)" },
                 gui_mode: { type: "boolean" },
+                provisioners: PROVISIONERS_INPUT,
             },
             required: ["name", "project_path"],
         },
     },
+    {
+        name: "create_environment",
+        description: "Create a multi-machine environment (one Vagrantfile with config.vm.define blocks) on a shared private network. Machines boot in dependency order and are addressed by other tools as 'env/machine'.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                name: { type: "string", description: "Environment name" },
+                box: { type: "string", default: "ubuntu/focal64", description: "Default box for all machines" },
+                subnet: { type: "string", default: "192.168.56", description: "First three octets of the private network" },
+                machines: {
+                    type: "array",
+                    items: {
+                        type: "object",
+                        properties: {
+                            name: { type: "string" },
+                            box: { type: "string" },
+                            cpu: { type: "number", default: 1 },
+                            memory: { type: "number", default: 1024 },
+                            ip: { type: "string", description: "Private network IP (default: assigned from subnet)" },
+                            ports: { type: "array", items: { type: "object", properties: { guest: { type: "number" }, host: { type: "number" } } } },
+                            depends_on: { type: "array", items: { type: "string" }, description: "Machines that must be up before this one" },
+                            provisioners: PROVISIONERS_INPUT
+                        },
+                        required: ["name"]
+                    }
+                }
+            },
+            required: ["name", "machines"],
+        },
+    },
+    {
+        name: "provision_vm",
+        description: "Re-run a VM's provisioners (vagrant provision), optionally only the named ones. Returns output per step and which step failed.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                vm_name: { type: "string" },
+                provisioners: { type: "array", items: { type: "string" }, description: "Provisioner names or types to run (--provision-with); default: all" },
+                timeout: { type: "number", description: "Timeout in milliseconds (default: 1800000)" }
+            },
+            required: ["vm_name"],
+        },
+    },
     {
         name: "ensure_dev_vm",
         description: "Ensure development VM is running, create if it doesn't exist",
@@ -251,18 +487,34 @@ export const TOOLS = [
         inputSchema: {
             type: "object",
             properties: {
-                vm_name: { type: "string" }
+                vm_name: { type: "string" },
+                pair_id: { type: "string", description: "Only sync this pair (default: all pairs of the VM)" }
             },
             required: ["vm_name"]
         }
     },
     {
         name: "sync_from_vm",
-        description: "Sync files from VM to host",
+        description: "Sync files from VM to host. Uses vagrant rsync-back when available, otherwise downloads only the files whose content changed (native VMs)",
         inputSchema: {
             type: "object",
             properties: {
-                vm_name: { type: "string" }
+                vm_name: { type: "string" },
+                pair_id: { type: "string", description: "Only sync this pair (default: all pairs of the VM)" }
+            },
+            required: ["vm_name"]
+        }
+    },
+    {
+        name: "sync_diff",
+        description: "Dry run of a sync: compares the host and guest trees of a configured sync pair without changing either. Reports added, modified, deleted and excluded files with sizes and MD5 hashes",
+        inputSchema: {
+            type: "object",
+            properties: {
+                vm_name: { type: "string" },
+                pair_id: { type: "string", description: "Sync pair (required when the VM has several)" },
+                direction: { type: "string", enum: ["to_vm", "from_vm"], description: "Sync to preview; added/deleted are relative to its source (default: from_vm for from_vm pairs, to_vm otherwise)" },
+                file_path: { type: "string", description: "Also return a unified diff of this file (relative to the sync root)" }
             },
             required: ["vm_name"]
         }
@@ -403,6 +655,57 @@ export const TOOLS = [
             required: ["vm_name", "guest_port"],
         },
     },
+    {
+        name: "add_port_forward",
+        description: "Forward a host port to a guest port (VirtualBox NAT rule). Applied live on running VMs and saved to the Vagrantfile of managed VMs.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                vm_name: { type: "string" },
+                guest_port: { type: "number" },
+                host_port: { type: "number" },
+                protocol: { type: "string", enum: ["tcp", "udp"], default: "tcp" },
+                host_ip: { type: "string", description: "Host address to bind (default: all interfaces)" },
+                rule_name: { type: "string", description: "NAT rule name (default: <protocol><guest_port>, as Vagrant names it)" }
+            },
+            required: ["vm_name", "guest_port", "host_port"],
+        },
+    },
+    {
+        name: "remove_port_forward",
+        description: "Remove a port forward by rule name or guest port, from the running VM and the Vagrantfile",
+        inputSchema: {
+            type: "object",
+            properties: {
+                vm_name: { type: "string" },
+                rule_name: { type: "string" },
+                guest_port: { type: "number" },
+                protocol: { type: "string", enum: ["tcp", "udp"], default: "tcp" }
+            },
+            required: ["vm_name"],
+        },
+    },
+    {
+        name: "list_port_forwards",
+        description: "List a VM's port forwards: active NAT rules and ports declared in its Vagrantfile",
+        inputSchema: {
+            type: "object",
+            properties: {
+                vm_name: { type: "string" }
+            },
+            required: ["vm_name"],
+        },
+    },
+    {
+        name: "list_host_ports",
+        description: "List host ports claimed by managed VMs, with the port each VM requested and the one it was assigned",
+        inputSchema: {
+            type: "object",
+            properties: {
+                vm_name: { type: "string", description: "Only show ports of this VM" }
+            },
+        },
+    },
     {
         name: "get_vm_dashboard",
         description: "Returns a comprehensive dashboard with VM status, resource usage (CPU/RAM/Disk), active background tasks, and recent logs.",
@@ -587,6 +890,49 @@ export const TOOLS = [
             required: ["vm_name"]
         },
     },
+    {
+        name: "resize_disk",
+        description: "Grows a VM disk (VMDK images are converted to VDI) and expands the guest partition and root filesystem. Halts and restarts a running VM.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                vm_name: { type: "string" },
+                size_gb: { type: "number", description: "New disk size in GB (disks can only grow)" },
+                disk: { type: "string", description: "Disk image path or file name (default: primary disk)" },
+                username: { type: "string" },
+                password: { type: "string" }
+            },
+            required: ["vm_name", "size_gb"]
+        },
+    },
+    {
+        name: "attach_disk",
+        description: "Attaches an extra data disk, creating a new VDI image if needed. Halts and restarts a running VM.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                vm_name: { type: "string" },
+                size_gb: { type: "number", description: "Size of a new image in GB" },
+                path: { type: "string", description: "Disk image on the host (default: disks/ in the VM's project directory)" },
+                controller: { type: "string", description: "Storage controller (default: the primary disk's)" },
+                port: { type: "number", description: "Controller port (default: first free port)" }
+            },
+            required: ["vm_name"]
+        },
+    },
+    {
+        name: "detach_disk",
+        description: "Detaches a data disk from a VM, optionally deleting its image. Halts and restarts a running VM.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                vm_name: { type: "string" },
+                disk: { type: "string", description: "Disk image path or file name" },
+                delete_image: { type: "boolean", description: "Also delete the disk image (default: false)" }
+            },
+            required: ["vm_name", "disk"]
+        },
+    },
     {
         name: "package_box",
         description: "Exports the VM to a portable .box file using `vagrant package`.",
@@ -599,6 +945,76 @@ export const TOOLS = [
             required: ["vm_name"]
         }
     },
+    {
+        name: "clone_vm",
+        description: "Clone a VM with VBoxManage clonevm. Full clones copy the disks; linked clones share the disks of a named snapshot. Clones of managed VMs get their own Vagrant project, and their forwarded host ports are moved to free ones.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                vm_name: { type: "string", description: "VM to clone" },
+                clone_name: { type: "string", description: "Name of the new VM" },
+                snapshot_name: { type: "string", description: "Clone the state of this snapshot (required for linked clones)" },
+                linked: { type: "boolean", description: "Create a linked clone (default: false)" }
+            },
+            required: ["vm_name", "clone_name"]
+        }
+    },
+    {
+        name: "list_boxes",
+        description: "List the local Vagrant box cache: versions, providers, disk usage per version and the managed VMs using each box",
+        inputSchema: {
+            type: "object",
+            properties: {}
+        }
+    },
+    {
+        name: "add_box",
+        description: "Add a box to the local cache from a catalog name (e.g. ubuntu/jammy64), a URL or a local .box file such as the output of package_box",
+        inputSchema: {
+            type: "object",
+            properties: {
+                source: { type: "string", description: "Catalog name, URL or path to a .box file" },
+                name: { type: "string", description: "Box name (default: catalog name, or the file name for .box files)" },
+                version: { type: "string", description: "Catalog version constraint" },
+                provider: { type: "string" },
+                force: { type: "boolean", description: "Replace an existing box with the same name and version" }
+            },
+            required: ["source"]
+        }
+    },
+    {
+        name: "remove_box",
+        description: "Remove cached versions of a box. Boxes used by managed VMs are kept unless force is set.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                name: { type: "string" },
+                version: { type: "string" },
+                provider: { type: "string" },
+                all_versions: { type: "boolean", description: "Remove every cached version" },
+                force: { type: "boolean" }
+            },
+            required: ["name"]
+        }
+    },
+    {
+        name: "outdated_boxes",
+        description: "Check every cached box for a newer version in its catalog",
+        inputSchema: {
+            type: "object",
+            properties: {}
+        }
+    },
+    {
+        name: "prune_boxes",
+        description: "Remove all but the newest cached version of each box and report the disk space freed",
+        inputSchema: {
+            type: "object",
+            properties: {
+                dry_run: { type: "boolean", description: "Only report what would be removed" }
+            }
+        }
+    },
     {
         name: "inject_secrets",
         description: "Securely injects environment variables into the VM's .profile. Parameters are redacted from MCP logs.",
@@ -0,0 +1,101 @@
+/**
+ * IgnoreMatcher - Gitignore-style path exclusion
+ *
+ * Evaluates exclude patterns with .gitignore semantics: globs (`*.log`),
+ * anchored (`/build`) and directory-only (`dist/`) patterns, `**` and
+ * negation (`!keep.log`). Optionally merges the `.gitignore` and
+ * `.vmsyncignore` found in the root directory.
+ */
+
+import ignore, { Ignore } from 'ignore';
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from './logger.js';
+
+/**
+ * Ignore files read from the root directory, in order of precedence (lowest first)
+ */
+export const IGNORE_FILE_NAMES = ['.gitignore', '.vmsyncignore'];
+
+/**
+ * Options for an IgnoreMatcher
+ */
+export interface IgnoreMatcherOptions {
+    /** Also read the patterns of IGNORE_FILE_NAMES in the root directory */
+    loadIgnoreFiles?: boolean;
+}
+
+export class IgnoreMatcher {
+    private matcher: Ignore;
+
+    /** Effective patterns in evaluation order: ignore files first, then explicit patterns */
+    readonly patterns: string[];
+
+    /**
+     * @param root - Directory patterns are relative to
+     * @param patterns - Explicit patterns; they override the ignore files
+     */
+    constructor(private root: string, patterns: string[] = [], options: IgnoreMatcherOptions = {}) {
+        const filePatterns = options.loadIgnoreFiles ? IgnoreMatcher.readIgnoreFiles(root) : [];
+        this.patterns = [...filePatterns, ...patterns]
+            .map(p => p.trim())
+            .filter(p => p.length > 0 && !p.startsWith('#'));
+        this.matcher = ignore().add(this.patterns);
+    }
+
+    /**
+     * Whether a path is excluded. Accepts paths inside the root (absolute,
+     * or relative to it); the root itself and paths outside it never are.
+     * @param isDirectory - Lets directory-only patterns (`dist/`) match the directory itself
+     */
+    ignores(filePath: string, isDirectory: boolean = false): boolean {
+        const relPath = path.isAbsolute(filePath) ? path.relative(this.root, filePath) : filePath;
+        const posixPath = relPath.split(path.sep).join('/').replace(/^\.\//, '');
+        if (!posixPath || posixPath === '.' || posixPath.startsWith('../') || posixPath === '..') {
+            return false;
+        }
+        return this.matcher.ignores(isDirectory ? `${posixPath}/` : posixPath);
+    }
+
+    /**
+     * The patterns as rsync `--exclude` rules. rsync excludes cannot
+     * re-include a path, so negated patterns are left out.
+     */
+    toRsyncExcludes(): string[] {
+        const negated = this.patterns.filter(p => p.startsWith('!'));
+        if (negated.length > 0) {
+            logger.warn(`rsync cannot express negated exclude patterns; ignoring ${negated.join(', ')}`);
+        }
+        return this.patterns
+            .filter(p => !p.startsWith('!'))
+            // A leading backslash only escapes '#' or '!' in gitignore syntax
+            .map(p => p.replace(/^\\([#!])/, '$1'));
+    }
+
+    /**
+     * Globs for `find -name` matching directories whose whole subtree is
+     * excluded, so a listing can skip them instead of filtering afterwards.
+     * Only slash-free patterns qualify; none do when a negated pattern could
+     * re-include something.
+     */
+    toDirectoryNameGlobs(): string[] {
+        if (this.patterns.some(p => p.startsWith('!'))) return [];
+        return this.patterns
+            .map(p => p.replace(/^\\([#!])/, '$1').replace(/\/$/, ''))
+            .filter(p => p.length > 0 && !p.includes('/') && !p.includes('\\') && !p.includes('**'));
+    }
+
+    private static readIgnoreFiles(root: string): string[] {
+        const patterns: string[] = [];
+        for (const name of IGNORE_FILE_NAMES) {
+            const file = path.join(root, name);
+            if (!fs.existsSync(file)) continue;
+            try {
+                patterns.push(...fs.readFileSync(file, 'utf8').split(/\r?\n/));
+            } catch (error) {
+                logger.warn(`Failed to read ${file}`, error);
+            }
+        }
+        return patterns;
+    }
+}
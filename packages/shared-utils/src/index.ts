@@ -2,3 +2,4 @@ export * from "./logger.js";
 export * from "./system-monitor.js";
 export * from "./string-utils.js";
 export * from "./github-resolver.js";
+export * from "./ignore-matcher.js";
@@ -89,3 +89,123 @@ export function closestMatch(target: string, candidates: string[]): string | und
 
     return bestMatch;
 }
+
+/**
+ * Quotes a value as a single argument for a POSIX shell.
+ */
+export function shellQuote(value: string): string {
+    return `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+/**
+ * Shell command that runs `stat` on the arguments given to `sh -c`, with
+ * `stat -c` on GNU and busybox and `stat -f` on BSD systems, which lack it.
+ * Formats must not contain double quotes.
+ * @param gnuFormat - Format for `stat -c`, e.g. '%s %n'
+ * @param bsdFormat - The same fields for `stat -f`, e.g. '%z %N'
+ * @returns Command to pass as `sh -c <command> sh <files>`, shell-quoted
+ */
+export function portableStat(gnuFormat: string, bsdFormat: string): string {
+    return shellQuote(`if stat -c %s . >/dev/null 2>&1; then stat -c "${gnuFormat}" "$@"; else stat -f "${bsdFormat}" "$@"; fi`);
+}
+
+/**
+ * Above this many line pairs, differing regions are shown as replaced
+ * wholesale instead of being compared line by line.
+ */
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Line range of a hunk header, as `diff -u` writes it
+ */
+function hunkRange(start: number, count: number): string {
+    if (count === 1) return `${start + 1}`;
+    return `${count === 0 ? start : start + 1},${count}`;
+}
+
+/**
+ * Creates a unified diff (as `diff -u` prints it) between two texts.
+ * Returns an empty string if they are equal.
+ */
+export function unifiedDiff(oldText: string, newText: string, oldLabel: string = 'a', newLabel: string = 'b', context: number = 3): string {
+    if (oldText === newText) {
+        return '';
+    }
+
+    // Lines keep their terminator so that a missing final newline is a change
+    const a = oldText.match(/[^\n]*\n|[^\n]+$/g) || [];
+    const b = newText.match(/[^\n]*\n|[^\n]+$/g) || [];
+
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) {
+        start++;
+    }
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+        endA--;
+        endB--;
+    }
+
+    const ops: Array<[' ' | '-' | '+', string]> = a.slice(0, start).map(line => [' ', line]);
+    const n = endA - start;
+    const m = endB - start;
+    if (n * m <= MAX_DIFF_CELLS) {
+        // Longest common subsequence lengths of the remaining suffixes
+        const lcs = new Uint32Array((n + 1) * (m + 1));
+        for (let i = n - 1; i >= 0; i--) {
+            for (let j = m - 1; j >= 0; j--) {
+                lcs[i * (m + 1) + j] = a[start + i] === b[start + j]
+                    ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+                    : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+            }
+        }
+        let i = 0;
+        let j = 0;
+        while (i < n || j < m) {
+            if (i < n && j < m && a[start + i] === b[start + j]) {
+                ops.push([' ', a[start + i++]]);
+                j++;
+            } else if (i < n && (j === m || lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1])) {
+                ops.push(['-', a[start + i++]]);
+            } else {
+                ops.push(['+', b[start + j++]]);
+            }
+        }
+    } else {
+        ops.push(...a.slice(start, endA).map((line): [' ' | '-' | '+', string] => ['-', line]));
+        ops.push(...b.slice(start, endB).map((line): [' ' | '-' | '+', string] => ['+', line]));
+    }
+    ops.push(...a.slice(endA).map((line): [' ' | '-' | '+', string] => [' ', line]));
+
+    const output = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+    let index = 0;
+    while (index < ops.length) {
+        while (index < ops.length && ops[index][0] === ' ') {
+            index++;
+        }
+        if (index === ops.length) break;
+
+        // Changes separated by at most 2 * context unchanged lines share a hunk
+        let lastChange = index;
+        for (let k = index + 1; k < ops.length && k - lastChange <= 2 * context; k++) {
+            if (ops[k][0] !== ' ') lastChange = k;
+        }
+        const hunkStart = Math.max(0, index - context);
+        const hunkEnd = Math.min(ops.length, lastChange + context + 1);
+
+        const before = ops.slice(0, hunkStart);
+        const hunk = ops.slice(hunkStart, hunkEnd);
+        const oldStart = before.filter(([type]) => type !== '+').length;
+        const newStart = before.filter(([type]) => type !== '-').length;
+        const oldCount = hunk.filter(([type]) => type !== '+').length;
+        const newCount = hunk.filter(([type]) => type !== '-').length;
+        output.push(`@@ -${hunkRange(oldStart, oldCount)} +${hunkRange(newStart, newCount)} @@`);
+        for (const [type, line] of hunk) {
+            output.push(line.endsWith('\n') ? type + line.slice(0, -1) : `${type}${line}\n\\ No newline at end of file`);
+        }
+        index = hunkEnd;
+    }
+
+    return output.join('\n') + '\n';
+}
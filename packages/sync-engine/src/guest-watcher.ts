@@ -0,0 +1,261 @@
+/**
+ * GuestWatcher - Detects file changes inside a VM
+ *
+ * Uses inotifywait when the guest has it (inotify-tools) and falls back to
+ * comparing periodic listings of the guest tree otherwise. Changed files are
+ * reported as paths relative to the watched directory; the caller decides
+ * what to pull.
+ *
+ * inotifywait runs in bounded sessions. After each session the tree is
+ * listed and compared with the previous listing, so that changes made while
+ * no session was running are reported too.
+ */
+
+import { VagrantClient, VMCredentials } from '@virtualbox-mcp/vagrant-client';
+import { logger, shellQuote, portableStat } from '@virtualbox-mcp/shared-utils';
+
+/**
+ * How changes are detected
+ */
+export type GuestWatchMode = 'inotify' | 'poll';
+
+/**
+ * Options for a GuestWatcher
+ */
+export interface GuestWatcherOptions {
+    vmName: string;
+    /** Directory to watch in the guest */
+    guestPath: string;
+    credentials?: VMCredentials;
+    /** Interval between listings in poll mode, and between retries after errors (default: 10 seconds) */
+    pollIntervalMs?: number;
+    /** Globs (`find -name` syntax) of directories that are neither watched nor listed, e.g. node_modules */
+    excludes?: string[];
+    /** Receives changed files, relative to guestPath (posix separators) */
+    onChange: (relPaths: string[]) => Promise<void>;
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 10000;
+
+/**
+ * Each inotifywait session is bounded so that a stopped watcher never leaves
+ * a process behind in the guest for long
+ */
+const INOTIFY_SESSION_SECONDS = 60;
+
+/**
+ * Events arriving within this window are reported together
+ */
+const EVENT_BATCH_MS = 500;
+
+export class GuestWatcher {
+    private active = false;
+    private currentMode?: GuestWatchMode;
+    private pollIntervalMs: number;
+
+    /** Size and mtime per file from the last listing */
+    private manifest: Map<string, string> = new Map();
+
+    private pending: Set<string> = new Set();
+    private batchTimer?: NodeJS.Timeout;
+    private pollTimer?: NodeJS.Timeout;
+    /** Ends the running inotifywait session */
+    private session?: AbortController;
+
+    constructor(private vagrant: VagrantClient, private options: GuestWatcherOptions) {
+        this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    }
+
+    /**
+     * Detection method in use, once started
+     */
+    get mode(): GuestWatchMode | undefined {
+        return this.currentMode;
+    }
+
+    /**
+     * Starts watching. Files that exist at this point are not reported.
+     * @returns The detection method chosen
+     */
+    async start(): Promise<GuestWatchMode> {
+        this.active = true;
+        const probe = await this.vagrant.executeCommand(this.options.vmName, 'command -v inotifywait', this.options.credentials);
+
+        this.manifest = await this.readManifest();
+        if (probe.exitCode === 0 && probe.stdout.trim()) {
+            this.currentMode = 'inotify';
+            void this.watchLoop();
+        } else {
+            this.currentMode = 'poll';
+            this.schedulePoll();
+        }
+
+        logger.info(`Watching ${this.options.guestPath} in VM ${this.options.vmName} (${this.currentMode})`);
+        return this.currentMode;
+    }
+
+    /**
+     * Stops watching and ends a running inotifywait session
+     */
+    stop(): void {
+        this.active = false;
+        this.session?.abort();
+        clearTimeout(this.batchTimer);
+        clearTimeout(this.pollTimer);
+        this.pending.clear();
+    }
+
+    private async watchLoop(): Promise<void> {
+        const root = this.options.guestPath.replace(/\/+$/, '');
+        const excludes = this.options.excludes ?? [];
+        // inotifywait takes a single --exclude regex, matched against the full path
+        const exclude = excludes.length > 0
+            ? `--exclude ${shellQuote(`(^|/)(${excludes.map(globToRegex).join('|')})(/|$)`)} `
+            : '';
+        const command = `timeout ${INOTIFY_SESSION_SECONDS} inotifywait -m -r -q -e close_write,moved_to ${exclude}--format '%w%f' ${shellQuote(root)}`;
+
+        while (this.active) {
+            let partial = '';
+            this.session = new AbortController();
+            try {
+                const result = await this.vagrant.executeCommand(this.options.vmName, command, {
+                    ...this.options.credentials,
+                    timeout: (INOTIFY_SESSION_SECONDS + 15) * 1000,
+                    signal: this.session.signal,
+                    onOutput: (chunk) => {
+                        if (chunk.stream !== 'stdout') return;
+                        const lines = (partial + chunk.data).split('\n');
+                        partial = lines.pop() || '';
+                        this.addEvents(root, lines);
+                    }
+                });
+                this.addEvents(root, [partial]);
+
+                // timeout(1) exits with 124 when the session ends normally
+                if (result.exitCode !== 0 && result.exitCode !== 124 && this.active) {
+                    logger.warn(`inotifywait failed in VM ${this.options.vmName} (${result.stderr.trim() || result.exitCode}); switching to polling`);
+                    this.currentMode = 'poll';
+                    this.schedulePoll();
+                    return;
+                }
+                // Catches up on what changed outside the session
+                if (this.active) await this.compareManifest();
+            } catch (error: any) {
+                // VM stopped or unreachable; try again later
+                logger.debug(`Guest watcher for ${this.options.vmName} interrupted: ${error.message}`);
+                await new Promise(resolve => setTimeout(resolve, this.pollIntervalMs));
+            }
+        }
+    }
+
+    private addEvents(root: string, lines: string[]): void {
+        for (const line of lines) {
+            const file = line.trim();
+            if (!file.startsWith(`${root}/`)) continue;
+            this.pending.add(file.slice(root.length + 1));
+        }
+        if (this.pending.size === 0 || this.batchTimer) return;
+
+        this.batchTimer = setTimeout(() => {
+            this.batchTimer = undefined;
+            const changed = Array.from(this.pending);
+            this.pending.clear();
+            if (this.active) this.report(changed);
+        }, EVENT_BATCH_MS);
+    }
+
+    private schedulePoll(): void {
+        if (!this.active) return;
+        this.pollTimer = setTimeout(async () => {
+            try {
+                await this.compareManifest();
+            } catch (error: any) {
+                logger.debug(`Guest poll for ${this.options.vmName} failed: ${error.message}`);
+            }
+            this.schedulePoll();
+        }, this.pollIntervalMs);
+    }
+
+    /**
+     * Lists the guest tree again and reports the files that were added or
+     * changed since the previous listing
+     */
+    private async compareManifest(): Promise<void> {
+        const manifest = await this.readManifest();
+        const changed = Array.from(manifest.entries())
+            .filter(([file, stamp]) => this.manifest.get(file) !== stamp)
+            .map(([file]) => file);
+        this.manifest = manifest;
+        if (changed.length > 0 && this.active) await this.report(changed);
+    }
+
+    /**
+     * Lists the guest tree as "mtime size" per relative path
+     */
+    private async readManifest(): Promise<Map<string, string>> {
+        const stats = await statGuestTree(this.vagrant, this.options.vmName, this.options.guestPath, {
+            credentials: this.options.credentials,
+            excludes: this.options.excludes
+        });
+        return new Map(Array.from(stats, ([file, stat]) => [file, `${stat.mtime} ${stat.size}`]));
+    }
+
+    private async report(changed: string[]): Promise<void> {
+        try {
+            await this.options.onChange(changed);
+        } catch (error) {
+            logger.error(`Failed to sync guest changes from ${this.options.vmName}`, error);
+        }
+    }
+}
+
+/**
+ * Size and modification time (in whole seconds) of a guest file
+ */
+export interface GuestFileStat {
+    size: number;
+    mtime: number;
+}
+
+/**
+ * Lists the files under a guest directory with their size and mtime, keyed
+ * by posix path relative to it. Uses `stat -c` (GNU, busybox) or `stat -f`
+ * (BSD) since `find -printf` is GNU only.
+ * @param options.excludes - Globs (`find -name` syntax) of directories to skip
+ */
+export async function statGuestTree(
+    vagrant: VagrantClient,
+    vmName: string,
+    guestPath: string,
+    options: { credentials?: VMCredentials; excludes?: string[] } = {}
+): Promise<Map<string, GuestFileStat>> {
+    const excludes = options.excludes ?? [];
+    const prune = excludes.length > 0
+        ? `-type d \\( ${excludes.map(e => `-name ${shellQuote(e)}`).join(' -o ')} \\) -prune -o `
+        : '';
+    const result = await vagrant.executeCommand(vmName,
+        `cd ${shellQuote(guestPath)} && find . ${prune}-type f -exec sh -c ${portableStat('%Y %s %n', '%m %z %N')} sh {} +`, options.credentials);
+
+    const stats = new Map<string, GuestFileStat>();
+    for (const line of result.stdout.split('\n')) {
+        const match = line.match(/^(\d+) (\d+) \.\/(.+)$/);
+        if (match) stats.set(match[3], { mtime: parseInt(match[1], 10), size: parseInt(match[2], 10) });
+    }
+    // A file removed while listing fails only its own stat
+    if (result.exitCode !== 0 && stats.size === 0) {
+        throw new Error(`Failed to list ${guestPath} in VM ${vmName}: ${result.stderr.trim() || `exit code ${result.exitCode}`}`);
+    }
+    return stats;
+}
+
+/**
+ * Converts a `find -name` glob into an extended regular expression
+ */
+function globToRegex(glob: string): string {
+    return glob.replace(/[.+^${}()|\\]/g, '\\$&')
+        .replace(/\*/g, '[^/]*')
+        .replace(/\?/g, '[^/]')
+        .replace(/\[!/g, '[^');
+}
+
+export { GuestWatcher as default };
@@ -1,75 +1,654 @@
 import { VagrantClient, VMCredentials } from '@virtualbox-mcp/vagrant-client';
-import { logger } from '@virtualbox-mcp/shared-utils';
+import { logger, shellQuote, portableStat, unifiedDiff, IgnoreMatcher, IGNORE_FILE_NAMES } from '@virtualbox-mcp/shared-utils';
 import * as chokidar from 'chokidar';
 import { execa } from 'execa';
 import * as path from 'path';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as crypto from 'crypto';
+import { GuestWatcher, GuestWatchMode, statGuestTree } from './guest-watcher.js';
+import { OperationTracker } from './operation-tracker.js';
+import { SyncStore, ManifestEntry } from './sync-store.js';
 
 export type SyncDirection = 'bidirectional' | 'to_vm' | 'from_vm';
 export type SyncStatus = 'idle' | 'syncing' | 'error';
 export type ConflictResolution = 'use_host' | 'use_vm';
+/** How host symlinks are synced: through to their targets, as links, or not at all */
+export type SymlinkPolicy = 'follow' | 'copy' | 'skip';
 
-interface SyncConfig {
+export interface SyncConfig {
     vmName: string;
+    /** Name of the pair, unique per VM (default: 'default') */
+    id?: string;
     hostPath: string;
     guestPath: string;
     direction: SyncDirection;
+    /** Gitignore-style patterns, relative to hostPath */
     excludePatterns?: string[];
+    /** Also apply the .gitignore and .vmsyncignore in hostPath */
+    useIgnoreFiles?: boolean;
     credentials?: VMCredentials;
+    /** Deletions above this count within one batch are held back (default: 50) */
+    maxBulkDeletions?: number;
+    /** Guest listing interval when inotifywait is unavailable (default: 10 seconds) */
+    pollIntervalMs?: number;
+    /** Watchers are stopped until the pair is resumed */
+    paused?: boolean;
+    /** How host symlinks are synced (default: 'copy') */
+    symlinks?: SymlinkPolicy;
+    /** Also give guest files the numeric owner and group of the host files; needs passwordless sudo in the guest */
+    preserveOwnership?: boolean;
+}
+
+/**
+ * Content and metadata of one side of a synced file
+ */
+interface FileVersion {
+    /** MD5 of the content */
+    hash: string;
+    size: number;
+    mtime: Date;
+}
+
+/**
+ * A host file as its pair uploads it
+ */
+interface HostFile {
+    /** MD5 of the content; for symlinks synced as links, of the link target */
+    hash: string;
+    /** Bytes of content, or of the link target */
+    size: number;
+    /** Permission bits */
+    mode: number;
+    uid: number;
+    gid: number;
+    /** Target of a symlink synced as a link */
+    link?: string;
+    /** Only the permission bits differ from the last sync */
+    modeOnly?: boolean;
+}
+
+/**
+ * A file changed on both host and guest since it was last synced
+ */
+interface SyncConflict {
+    /** Posix path relative to the sync root */
+    path: string;
+    /** Absent when the file was deleted on the host */
+    host?: FileVersion;
+    guest: FileVersion;
+    detectedAt: Date;
+}
+
+/**
+ * One path in a sync diff; the sides it does not exist on are left out
+ */
+interface SyncDiffEntry {
+    /** Posix path relative to the sync root; excluded directories end in '/' */
+    path: string;
+    host?: { size: number; hash: string };
+    guest?: { size: number; hash: string };
+}
+
+/**
+ * What a sync in one direction would change
+ */
+interface SyncDiff {
+    direction: 'to_vm' | 'from_vm';
+    /** Files only the source side has */
+    added: SyncDiffEntry[];
+    /** Files whose content differs */
+    modified: SyncDiffEntry[];
+    /** Files only the target side has */
+    deleted: SyncDiffEntry[];
+    /** Excluded files and directories, on either side; excluded host directories are not descended into */
+    excluded: SyncDiffEntry[];
+    unchanged: number;
+    /** Unified diff of the requested file, from the target's copy to the source's */
+    diff?: string;
+}
+
+/**
+ * One transfer in a VM's sync history
+ */
+export interface SyncEvent {
+    /** When the transfer finished */
+    time: Date;
+    pairId: string;
+    /** Posix path relative to the sync root */
+    path: string;
+    direction: 'to_vm' | 'from_vm';
+    /** upload and download copy content; mode only sets the permission bits */
+    action: 'upload' | 'download' | 'delete' | 'rename' | 'mode';
+    /** Path a renamed file was moved from */
+    from?: string;
+    bytes: number;
+    /** MD5 of the content the target side was given */
+    hash?: string;
+    /** Duration of the transfer; files uploaded in one archive share it */
+    durationMs: number;
+    error?: string;
+}
+
+/**
+ * A sync pair as listed by list_sync_configs; credentials are reduced to the user name
+ */
+export interface SyncConfigSummary extends Omit<SyncConfig, 'credentials'> {
+    username?: string;
+    status: SyncStatus;
+    lastSyncTime?: Date;
+    guestWatcher?: GuestWatchMode;
+    /** Files in the pair's manifest */
+    trackedFiles: number;
+    conflicts: number;
+    blockedDeletions: number;
 }
 
 interface SyncState {
     status: SyncStatus;
     lastSyncTime?: Date;
-    conflicts: string[]; // Paths with conflicts
+    conflicts: SyncConflict[];
+    /**
+     * Host deletions that exceeded maxBulkDeletions and were not applied to
+     * the guest, as posix paths relative to the sync root. Resolve a path
+     * with use_host to delete it in the guest.
+     */
+    blockedDeletions: string[];
+    /** How guest changes are detected, for from_vm and bidirectional pairs */
+    guestWatcher?: GuestWatchMode;
+    /** Watchers are stopped (pause_sync) */
+    paused: boolean;
+}
+
+/**
+ * A host deletion waiting to be applied to the guest
+ */
+interface PendingDeletion {
+    isDirectory: boolean;
+    /** Hash the file had when it was last synced, used to detect renames */
+    hash?: string;
+}
+
+const DEFAULT_MAX_BULK_DELETIONS = 50;
+
+const DEFAULT_SYMLINK_POLICY: SymlinkPolicy = 'copy';
+
+/**
+ * Id of a pair configured without one
+ */
+const DEFAULT_PAIR_ID = 'default';
+
+/**
+ * How long deletions are collected before they are applied. A rename shows
+ * up as a deletion followed by an add once the new file is stable, so the
+ * window must outlast the watcher's write-finish threshold.
+ */
+const DELETION_BATCH_MS = 1500;
+
+/**
+ * How long changed files are collected before they are uploaded together.
+ * Each new change restarts the window.
+ */
+const UPLOAD_BATCH_MS = 1000;
+
+/**
+ * Transfers kept in each VM's sync history; older ones are dropped
+ */
+const MAX_HISTORY_EVENTS = 1000;
+
+/**
+ * Delay before changed configs and manifests are written to disk
+ */
+const SAVE_DELAY_MS = 1000;
+
+/**
+ * Script printing "M <octal mode> <path>" for each argument
+ */
+const GUEST_MODE_STAT = portableStat('M %a %n', 'M %Lp %N');
+
+/**
+ * Key of a sync pair in the SyncManager's maps
+ */
+function pairKey(vmName: string, pairId: string = DEFAULT_PAIR_ID): string {
+    return `${vmName}#${pairId}`;
 }
 
 export class SyncManager {
+    // Pair state is keyed by pairKey()
     private watchers: Map<string, chokidar.FSWatcher> = new Map();
+    private guestWatchers: Map<string, GuestWatcher> = new Map();
+    private matchers: Map<string, IgnoreMatcher> = new Map();
     private configs: Map<string, SyncConfig> = new Map();
     private states: Map<string, SyncState> = new Map();
-    private fileHashes: Map<string, string> = new Map(); // Cache for file hashes
 
-    constructor(private vagrant: VagrantClient) { }
+    /**
+     * Hashes and mode of each file at its last sync, keyed by pair then posix
+     * path relative to the sync root. This is the base conflicts are detected
+     * against; pairs sharing a host path keep separate manifests.
+     */
+    private manifests: Map<string, Map<string, ManifestEntry>> = new Map();
+
+    /** Host deletions not yet applied to the guest, keyed by pair then host path */
+    private pendingDeletions: Map<string, Map<string, PendingDeletion>> = new Map();
+    private deletionTimers: Map<string, NodeJS.Timeout> = new Map();
+
+    /** Changed host files not yet uploaded, keyed by pair */
+    private pendingUploads: Map<string, Set<string>> = new Map();
+    private uploadTimers: Map<string, NodeJS.Timeout> = new Map();
+    /** Last upload batch of each pair; batches of a pair run one after another */
+    private uploadBatches: Map<string, Promise<void>> = new Map();
+
+    /** Recent transfers of each VM, oldest first, keyed by VM name */
+    private history: Map<string, SyncEvent[]> = new Map();
+
+    /** Configs and manifests persisted in the VMs directory */
+    private store: SyncStore;
+    private saveTimer?: NodeJS.Timeout;
+    /** VMs whose state changed since it was last saved */
+    private unsavedVMs: Set<string> = new Set();
+
+    /**
+     * @param tracker - Reports batched uploads as 'upload' operations
+     */
+    constructor(private vagrant: VagrantClient, private tracker?: OperationTracker) {
+        this.store = new SyncStore(vagrant.vmsDirectory);
+    }
 
+    /**
+     * Creates a sync pair, or replaces the pair of the VM with the same id
+     */
     async configureSync(config: SyncConfig): Promise<void> {
-        this.configs.set(config.vmName, config);
-        this.states.set(config.vmName, { status: 'idle', conflicts: [] });
+        // Absolute, so that the persisted pair still works after a restart from elsewhere
+        config = { ...config, id: config.id || DEFAULT_PAIR_ID, hostPath: path.resolve(config.hostPath) };
+        // A pair moved to other folders starts from an empty manifest
+        const previous = this.configs.get(this.keyOf(config));
+        if (previous && (previous.hostPath !== config.hostPath || previous.guestPath !== config.guestPath)) {
+            this.manifests.delete(this.keyOf(config));
+        }
+        this.configs.set(this.keyOf(config), config);
+        this.save(config.vmName);
+        this.loadMatcher(config);
+        this.states.set(this.keyOf(config), { status: 'idle', conflicts: [], blockedDeletions: [], paused: !!config.paused });
 
         // Stop existing watcher if any
-        if (this.watchers.has(config.vmName)) {
-            await this.watchers.get(config.vmName)?.close();
-            this.watchers.delete(config.vmName);
+        await this.stopWatchers(config);
+        if (!config.paused) {
+            await this.startWatchers(config);
         }
+    }
 
+    /**
+     * Stops the watchers of a VM's pairs (or of one pair) until they are
+     * resumed. Changes made in the meantime are only picked up by resumeSync
+     * with catchUp, or by a full sync.
+     * @returns Ids of the paused pairs
+     */
+    async pauseSync(vmName: string, pairId?: string): Promise<string[]> {
+        const pairs = this.requirePairs(vmName, pairId);
+        for (const config of pairs) {
+            config.paused = true;
+            this.states.get(this.keyOf(config))!.paused = true;
+            await this.stopWatchers(config);
+            logger.info(`Paused sync pair ${config.id} for VM ${vmName}`);
+        }
+        this.save(vmName);
+        return pairs.map(c => c.id!);
+    }
+
+    /**
+     * Restarts the watchers of paused pairs
+     * @param options.catchUp - Also sync the changes made while paused (default: true)
+     * @returns Ids of the resumed pairs
+     */
+    async resumeSync(vmName: string, pairId?: string, options: { catchUp?: boolean } = {}): Promise<string[]> {
+        const pairs = this.requirePairs(vmName, pairId).filter(c => c.paused);
+        for (const config of pairs) {
+            config.paused = false;
+            this.states.get(this.keyOf(config))!.paused = false;
+            await this.startWatchers(config);
+            if (options.catchUp ?? true) {
+                await this.catchUp(config, Object.keys(this.manifestOf(config)));
+            }
+            logger.info(`Resumed sync pair ${config.id} for VM ${vmName}`);
+        }
+        this.save(vmName);
+        return pairs.map(c => c.id!);
+    }
+
+    /**
+     * Stops and forgets a VM's pairs (or one pair), including their
+     * manifests. Files on either side are left alone.
+     * @returns Ids of the removed pairs
+     */
+    async removeSync(vmName: string, pairId?: string): Promise<string[]> {
+        const pairs = this.requirePairs(vmName, pairId);
+        for (const config of pairs) {
+            await this.stopWatchers(config);
+            const key = this.keyOf(config);
+            this.configs.delete(key);
+            this.states.delete(key);
+            this.matchers.delete(key);
+            this.manifests.delete(key);
+            logger.info(`Removed sync pair ${config.id} for VM ${vmName}`);
+        }
+        this.save(vmName);
+        return pairs.map(c => c.id!);
+    }
+
+    private async startWatchers(config: SyncConfig): Promise<void> {
         if (config.direction !== 'from_vm') {
             await this.startHostWatcher(config);
         }
+        if (config.direction !== 'to_vm') {
+            await this.startGuestWatcher(config);
+        }
+    }
+
+    /**
+     * Stops a pair's watchers and drops the changes they queued
+     */
+    private async stopWatchers(config: SyncConfig): Promise<void> {
+        const key = this.keyOf(config);
+        await this.watchers.get(key)?.close();
+        this.watchers.delete(key);
+        this.guestWatchers.get(key)?.stop();
+        this.guestWatchers.delete(key);
+
+        clearTimeout(this.uploadTimers.get(key));
+        this.uploadTimers.delete(key);
+        this.pendingUploads.delete(key);
+        clearTimeout(this.deletionTimers.get(key));
+        this.deletionTimers.delete(key);
+        this.pendingDeletions.delete(key);
+    }
+
+    private keyOf(config: SyncConfig): string {
+        return pairKey(config.vmName, config.id);
+    }
+
+    /**
+     * Sync pairs of a VM
+     */
+    private pairsOf(vmName: string): SyncConfig[] {
+        return Array.from(this.configs.values()).filter(c => c.vmName === vmName);
+    }
+
+    /**
+     * The pair an operation applies to: the given one, or the VM's only pair
+     * @throws If there is no such pair, or several and no id was given
+     */
+    private requirePair(vmName: string, pairId?: string): SyncConfig {
+        if (pairId) {
+            const config = this.configs.get(pairKey(vmName, pairId));
+            if (!config) throw new Error(`No sync pair '${pairId}' for VM ${vmName}`);
+            return config;
+        }
+        const pairs = this.pairsOf(vmName);
+        if (pairs.length === 0) throw new Error(`No sync config for VM ${vmName}`);
+        if (pairs.length > 1) {
+            throw new Error(`VM ${vmName} has several sync pairs (${pairs.map(c => c.id).join(', ')}); specify a pair id`);
+        }
+        return pairs[0];
+    }
+
+    /**
+     * The given pair, or all pairs of the VM
+     */
+    private selectPairs(vmName: string, pairId?: string): SyncConfig[] {
+        return pairId ? [this.requirePair(vmName, pairId)] : this.pairsOf(vmName);
+    }
+
+    /**
+     * Like selectPairs, but the VM must have at least one pair
+     */
+    private requirePairs(vmName: string, pairId?: string): SyncConfig[] {
+        const pairs = this.selectPairs(vmName, pairId);
+        if (pairs.length === 0) throw new Error(`No sync config for VM ${vmName}`);
+        return pairs;
+    }
+
+    /**
+     * Restores the persisted sync pairs: reloads their manifests, restarts
+     * their watchers and catches up on changes made while the server was
+     * down. Guest files created in the meantime are left to sync_from_vm.
+     * @returns VM names of the restored pairs
+     */
+    async restoreSyncConfigs(): Promise<string[]> {
+        const pairs = this.store.load().map(pair => ({ ...pair, config: { ...pair.config, id: pair.config.id || DEFAULT_PAIR_ID } }));
+        // Registered up front so that the pairs are listed while their watchers start
+        for (const pair of pairs) {
+            this.configs.set(this.keyOf(pair.config), pair.config);
+            this.manifests.set(this.keyOf(pair.config), new Map(Object.entries(pair.files)));
+        }
+
+        for (const pair of pairs) {
+            try {
+                await this.configureSync(pair.config);
+                if (!pair.config.paused) await this.catchUp(pair.config, Object.keys(pair.files));
+            } catch (error: any) {
+                logger.warn(`Could not fully restore sync pair ${pair.config.id} for VM ${pair.config.vmName}: ${error.message}`);
+            }
+        }
+
+        logger.info(`Restored ${pairs.length} sync pair(s)`);
+        return pairs.map(p => p.config.vmName);
+    }
+
+    /**
+     * Configured sync pairs with their state
+     */
+    listSyncConfigs(): SyncConfigSummary[] {
+        return Array.from(this.configs.values()).map(({ credentials, ...config }) => {
+            const state = this.states.get(this.keyOf(config));
+            return {
+                ...config,
+                username: credentials?.username,
+                status: state?.status ?? 'idle',
+                lastSyncTime: state?.lastSyncTime,
+                guestWatcher: state?.guestWatcher,
+                trackedFiles: this.manifests.get(this.keyOf(config))?.size ?? 0,
+                conflicts: state?.conflicts.length ?? 0,
+                blockedDeletions: state?.blockedDeletions.length ?? 0
+            };
+        });
+    }
+
+    /**
+     * Syncs what the watchers missed: guest changes to manifest files, and
+     * host files that were added, changed or deleted
+     * @param manifestFiles - Files synced before, relative to the sync root
+     */
+    private async catchUp(config: SyncConfig, manifestFiles: string[]): Promise<void> {
+        // Files deleted on the host are handled as deletions below; a
+        // bidirectional pull tells them apart from conflicts itself
+        const hostFiles = config.direction === 'bidirectional'
+            ? manifestFiles
+            : manifestFiles.filter(f => fs.lstatSync(path.join(config.hostPath, ...f.split('/')), { throwIfNoEntry: false }));
+        if (config.direction !== 'to_vm' && hostFiles.length > 0) {
+            await this.pullChangedFiles(config, hostFiles);
+        }
+        if (config.direction !== 'from_vm') {
+            for (const relPath of await this.listHostFiles(config)) {
+                this.queueUpload(config, path.join(config.hostPath, relPath));
+            }
+            const conflicts = this.states.get(this.keyOf(config))?.conflicts ?? [];
+            for (const relPath of manifestFiles) {
+                const hostFile = path.join(config.hostPath, ...relPath.split('/'));
+                if (conflicts.some(c => c.path === relPath)) continue;
+                if (!fs.lstatSync(hostFile, { throwIfNoEntry: false })) this.queueDeletion(config, hostFile, false);
+            }
+        }
+    }
+
+    /**
+     * Host files of a pair that are not excluded, relative to hostPath.
+     * Symlinks are listed as files, walked through or left out according
+     * to the pair's symlink policy.
+     * @param onExcluded - Receives excluded files and directories
+     */
+    private async listHostFiles(config: SyncConfig, onExcluded?: (relPath: string, isDirectory: boolean) => void): Promise<string[]> {
+        const policy = config.symlinks ?? DEFAULT_SYMLINK_POLICY;
+        const files: string[] = [];
+        // Real paths of the walked directories, so that followed links cannot loop
+        const walked = new Set<string>();
+        const walk = async (relDir: string): Promise<void> => {
+            const directory = path.join(config.hostPath, relDir);
+            const realPath = await fs.promises.realpath(directory);
+            if (walked.has(realPath)) return;
+            walked.add(realPath);
+
+            const entries = await fs.promises.readdir(directory, { withFileTypes: true });
+            for (const entry of entries) {
+                const relPath = path.join(relDir, entry.name);
+                if (entry.isSymbolicLink() && policy === 'skip') continue;
+                const target = entry.isSymbolicLink()
+                    ? await fs.promises.stat(path.join(config.hostPath, relPath)).catch(() => undefined)
+                    : entry;
+                const isDirectory = target?.isDirectory() ?? false;
+                if (this.isExcluded(config, relPath, isDirectory)) {
+                    onExcluded?.(relPath, isDirectory);
+                    continue;
+                }
+                if (entry.isSymbolicLink() && policy === 'copy') {
+                    files.push(relPath);
+                } else if (isDirectory) {
+                    await walk(relPath);
+                } else if (target?.isFile()) {
+                    files.push(relPath);
+                }
+            }
+        };
+        await walk('');
+        return files;
+    }
+
+    /**
+     * Manifest of a pair, keyed by posix relative path
+     */
+    private manifestOf(config: SyncConfig): Record<string, ManifestEntry> {
+        return Object.fromEntries(this.manifests.get(this.keyOf(config)) || []);
+    }
+
+    /**
+     * Manifest entry of a host file, if the pair has synced it
+     */
+    private entryOf(config: SyncConfig, hostFile: string): ManifestEntry | undefined {
+        return this.manifests.get(this.keyOf(config))?.get(this.relPathOf(config, hostFile));
+    }
+
+    /**
+     * Posix path of a host file relative to the sync root
+     */
+    private relPathOf(config: SyncConfig, hostFile: string): string {
+        return path.relative(config.hostPath, hostFile).split(path.sep).join('/');
+    }
+
+    /**
+     * Writes a VM's configs and manifests to disk after SAVE_DELAY_MS, so
+     * that a burst of synced files is saved once
+     */
+    private scheduleSave(vmName: string): void {
+        this.unsavedVMs.add(vmName);
+        if (this.saveTimer) return;
+        this.saveTimer = setTimeout(() => {
+            this.saveTimer = undefined;
+            const vmNames = Array.from(this.unsavedVMs);
+            this.unsavedVMs.clear();
+            vmNames.forEach(name => this.save(name));
+        }, SAVE_DELAY_MS);
+    }
+
+    /**
+     * Writes a VM's configs and manifests to disk now
+     */
+    private save(vmName: string): void {
+        try {
+            this.store.save(vmName, this.pairsOf(vmName).map(config => ({
+                config,
+                files: this.manifestOf(config)
+            })), this.vagrant.managedBy(vmName) === 'vagrant');
+        } catch (error) {
+            logger.error(`Failed to save sync state of VM ${vmName}`, error);
+        }
     }
 
     private async startHostWatcher(config: SyncConfig) {
-        logger.info(`Starting host watcher for ${config.vmName} on ${config.hostPath}`);
+        logger.info(`Starting host watcher for ${config.vmName} (${config.id}) on ${config.hostPath}`);
 
         const watcher = chokidar.watch(config.hostPath, {
-            ignored: (path, stats) => {
-                if (!config.excludePatterns) return false;
-                return config.excludePatterns.some(pattern => path.includes(pattern));
-            },
+            ignored: (filePath, stats) => this.isExcluded(config, path.resolve(filePath), stats?.isDirectory()),
             persistent: true,
             ignoreInitial: true,
+            // Unfollowed links are reported as files of their own
+            followSymlinks: (config.symlinks ?? DEFAULT_SYMLINK_POLICY) === 'follow',
             awaitWriteFinish: {
                 stabilityThreshold: 500,
                 pollInterval: 100
             }
         });
 
-        watcher.on('all', async (event, filePath) => {
+        watcher.on('all', (event, filePath) => {
             logger.debug(`File event ${event}: ${filePath}`);
-            await this.syncToVM(config.vmName, filePath);
+            if (config.useIgnoreFiles && IGNORE_FILE_NAMES.includes(path.basename(filePath))
+                && path.resolve(path.dirname(filePath)) === path.resolve(config.hostPath)) {
+                this.loadMatcher(config);
+            }
+            if (event === 'unlink' || event === 'unlinkDir') {
+                this.queueDeletion(config, filePath, event === 'unlinkDir');
+            } else {
+                this.queueUpload(config, filePath);
+            }
+        });
+
+        this.watchers.set(this.keyOf(config), watcher);
+    }
+
+    private async startGuestWatcher(config: SyncConfig) {
+        const watcher = new GuestWatcher(this.vagrant, {
+            vmName: config.vmName,
+            guestPath: config.guestPath,
+            credentials: config.credentials,
+            pollIntervalMs: config.pollIntervalMs,
+            excludes: this.matchers.get(this.keyOf(config))?.toDirectoryNameGlobs(),
+            onChange: async (relPaths) => {
+                const state = this.states.get(this.keyOf(config))!;
+                state.status = 'syncing';
+                try {
+                    const { pulled, failed } = await this.pullChangedFiles(config, relPaths);
+                    if (pulled.length > 0) state.lastSyncTime = new Date();
+                    state.status = failed.length > 0 ? 'error' : 'idle';
+                } catch (error) {
+                    state.status = 'error';
+                    throw error;
+                }
+            }
         });
+        this.guestWatchers.set(this.keyOf(config), watcher);
+
+        try {
+            this.states.get(this.keyOf(config))!.guestWatcher = await watcher.start();
+        } catch (error: any) {
+            // The host side keeps working; guest changes can still be pulled with sync_from_vm
+            logger.warn(`Could not watch ${config.guestPath} in VM ${config.vmName}: ${error.message}`);
+            watcher.stop();
+            this.guestWatchers.delete(this.keyOf(config));
+        }
+    }
 
-        this.watchers.set(config.vmName, watcher);
+    /**
+     * (Re)builds the exclude matcher of a pair, e.g. after its ignore files changed
+     */
+    private loadMatcher(config: SyncConfig): void {
+        this.matchers.set(this.keyOf(config), new IgnoreMatcher(path.resolve(config.hostPath), config.excludePatterns, {
+            loadIgnoreFiles: config.useIgnoreFiles
+        }));
+    }
+
+    /**
+     * Whether a path (host path or path relative to the sync root) is excluded
+     */
+    private isExcluded(config: SyncConfig, filePath: string, isDirectory: boolean = false): boolean {
+        return this.matchers.get(this.keyOf(config))?.ignores(filePath, isDirectory) ?? false;
     }
 
     private async computeHash(filePath: string): Promise<string | null> {
@@ -81,139 +660,1015 @@ export class SyncManager {
         }
     }
 
-    async syncToVM(vmName: string, changedFile: string): Promise<void> {
-        const config = this.configs.get(vmName);
+    /**
+     * Reads a host file the way its pair syncs it
+     * @returns null if the file is gone, or is a symlink or directory the pair does not upload
+     */
+    private async hostFileInfo(config: SyncConfig, hostFile: string): Promise<HostFile | null> {
+        const policy = config.symlinks ?? DEFAULT_SYMLINK_POLICY;
+        try {
+            let stats = await fs.promises.lstat(hostFile);
+            if (stats.isSymbolicLink()) {
+                if (policy === 'skip') return null;
+                if (policy === 'copy') {
+                    const link = await fs.promises.readlink(hostFile);
+                    return {
+                        hash: crypto.createHash('md5').update(`symlink:${link}`).digest('hex'),
+                        size: Buffer.byteLength(link),
+                        mode: stats.mode & 0o7777,
+                        uid: stats.uid,
+                        gid: stats.gid,
+                        link
+                    };
+                }
+                stats = await fs.promises.stat(hostFile);
+            }
+            if (!stats.isFile()) return null;
+
+            const hash = await this.computeHash(hostFile);
+            return hash ? { hash, size: stats.size, mode: stats.mode & 0o7777, uid: stats.uid, gid: stats.gid } : null;
+        } catch (error) {
+            return null;
+        }
+    }
+
+    /**
+     * Uploads a changed host file right away. In bidirectional pairs, a file
+     * that was also changed in the guest since the last sync is recorded as
+     * a conflict instead; force uploads it regardless.
+     * @param options.pairId - Pair to sync with (default: the VM's pair whose host path holds the file)
+     */
+    async syncToVM(vmName: string, changedFile: string, options: { force?: boolean; pairId?: string } = {}): Promise<void> {
+        const config = options.pairId
+            ? this.configs.get(pairKey(vmName, options.pairId))
+            : this.pairsOf(vmName)
+                .filter(c => path.resolve(changedFile).startsWith(c.hostPath + path.sep))
+                .sort((a, b) => b.hostPath.length - a.hostPath.length)[0];
         if (!config) return;
 
-        // Skip if file is deleted (handling deletions is complex in this simple sync)
-        if (!fs.existsSync(changedFile)) return;
+        const file = await this.checkUpload(config, changedFile, options.force);
+        if (file) await this.uploadFiles(config, new Map([[changedFile, file]]));
+    }
 
-        // Compute hash to avoid redundant transfers
-        const newHash = await this.computeHash(changedFile);
-        if (newHash && this.fileHashes.get(changedFile) === newHash) {
+    /**
+     * Uploads one host file (or recreates one symlink) over its guest copy,
+     * with its permission bits, and records it as synced
+     */
+    private async uploadChangedFile(config: SyncConfig, hostFile: string, file: HostFile): Promise<void> {
+        const state = this.states.get(this.keyOf(config))!;
+        const startTime = Date.now();
+        state.status = 'syncing';
+
+        try {
+            logger.info(`Syncing ${path.relative(config.hostPath, hostFile)} to VM ${config.vmName}`);
+            const guestFile = this.toGuestPath(config, hostFile);
+            const commands: string[] = [];
+            if (file.link) {
+                commands.push(`mkdir -p ${shellQuote(path.posix.dirname(guestFile))} && rm -rf -- ${shellQuote(guestFile)} && ln -s -- ${shellQuote(file.link)} ${shellQuote(guestFile)}`);
+            } else {
+                await this.vagrant.uploadFile(config.vmName, hostFile, guestFile, config.credentials);
+            }
+            commands.push(this.attributeCommand(config, [[guestFile, file]]));
+
+            const command = commands.filter(Boolean).join(' && ');
+            if (command) {
+                const result = await this.vagrant.executeCommand(config.vmName, command, config.credentials);
+                if (result.exitCode !== 0) {
+                    throw new Error(result.stderr || `Failed to set up ${guestFile}`);
+                }
+            }
+            this.recordSynced(config, hostFile, file.hash, file.mode);
+            this.recordEvent(config, hostFile, {
+                direction: 'to_vm', action: 'upload', bytes: file.size, hash: file.hash, durationMs: Date.now() - startTime
+            });
+
+            state.lastSyncTime = new Date();
+            state.status = 'idle';
+        } catch (error: any) {
+            logger.error(`Sync failed for ${config.vmName}`, error);
+            this.recordEvent(config, hostFile, {
+                direction: 'to_vm', action: 'upload', bytes: 0, hash: file.hash, durationMs: Date.now() - startTime, error: error.message
+            });
+            state.status = 'error';
+        }
+    }
+
+    /**
+     * Decides whether a changed host file needs uploading. Deletions, renames
+     * and conflicts are dealt with here.
+     * @param guestHashes - Guest hashes of a whole batch, keyed by posix path
+     *                      relative to the sync root; saves a lookup per file
+     * @returns The file if it should be uploaded, otherwise null
+     */
+    private async checkUpload(config: SyncConfig, changedFile: string, force: boolean = false, guestHashes?: Map<string, string>): Promise<HostFile | null> {
+        const file = await this.hostFileInfo(config, changedFile);
+        if (!file) {
+            if (!fs.lstatSync(changedFile, { throwIfNoEntry: false })) this.queueDeletion(config, changedFile, false);
+            return null;
+        }
+
+        // Compare hashes to avoid redundant transfers
+        const base = this.entryOf(config, changedFile);
+        if (!force && base?.host === file.hash) {
+            if (base.mode !== file.mode) return { ...file, modeOnly: true };
             logger.debug(`Skipping sync for ${changedFile} (content unchanged)`);
-            return;
+            return null;
         }
 
-        const state = this.states.get(vmName)!;
-        state.status = 'syncing';
+        if (await this.applyRename(config, changedFile, file)) return null;
 
-        try {
-            const relPath = path.relative(config.hostPath, changedFile);
-            const destPath = path.join(config.guestPath, relPath).replace(/\\/g, '/'); // Ensure posix paths for VM
+        // Links are synced from the host only, so they cannot conflict
+        const baseGuestHash = base?.guest;
+        if (!force && config.direction === 'bidirectional' && baseGuestHash && !file.link) {
+            const relPath = this.relPathOf(config, changedFile);
+            const guestHash = guestHashes
+                ? guestHashes.get(relPath)
+                : (await this.guestFileVersion(config, relPath))?.hash;
+            if (guestHash && guestHash === file.hash) {
+                // Both sides made the same change
+                this.recordSynced(config, changedFile, guestHash);
+                return base?.mode !== file.mode ? { ...file, modeOnly: true } : null;
+            }
+            if (guestHash && guestHash !== baseGuestHash) {
+                const guest = await this.guestFileVersion(config, relPath);
+                if (guest) {
+                    await this.recordConflict(config, relPath, guest);
+                    return null;
+                }
+            }
+        }
 
-            logger.info(`Syncing ${relPath} to VM ${vmName}`);
+        return file;
+    }
 
-            // Update hash cache BEFORE upload (optimistic) or AFTER? 
-            // Better updating it after success, but to prevent rapid-fire triggers, maybe before?
-            // Let's do after to ensure integrity.
+    /**
+     * Records a changed host file. Changes are collected for UPLOAD_BATCH_MS
+     * and then uploaded together.
+     */
+    private queueUpload(config: SyncConfig, hostFile: string): void {
+        const key = this.keyOf(config);
+        if (!this.configs.has(key)) return;
+
+        let pending = this.pendingUploads.get(key);
+        if (!pending) {
+            pending = new Set();
+            this.pendingUploads.set(key, pending);
+        }
+        pending.add(hostFile);
+
+        clearTimeout(this.uploadTimers.get(key));
+        this.uploadTimers.set(key, setTimeout(() => {
+            this.uploadTimers.delete(key);
+            const batch = (this.uploadBatches.get(key) || Promise.resolve())
+                .then(() => this.flushUploads(key))
+                .catch(error => logger.error(`Failed to upload changes for ${config.vmName} (${config.id})`, error));
+            this.uploadBatches.set(key, batch);
+        }, UPLOAD_BATCH_MS));
+    }
+
+    /**
+     * Uploads the pending changes of a pair
+     */
+    private async flushUploads(key: string): Promise<void> {
+        const pending = this.pendingUploads.get(key);
+        const config = this.configs.get(key);
+        this.pendingUploads.delete(key);
+        if (!pending || !config || config.paused) return;
+
+        // Files synced before may have changed in the guest too
+        const guestHashes = config.direction === 'bidirectional'
+            ? await this.hashGuestFiles(config, Array.from(pending)
+                .filter(hostFile => this.entryOf(config, hostFile)?.guest)
+                .map(hostFile => this.relPathOf(config, hostFile)))
+            : undefined;
+        const files = new Map<string, HostFile>();
+        for (const hostFile of Array.from(pending)) {
+            const file = await this.checkUpload(config, hostFile, false, guestHashes);
+            if (file) files.set(hostFile, file);
+        }
+        await this.uploadFiles(config, files);
+    }
+
+    /**
+     * Uploads checked host files: permission changes as chmod commands, a
+     * single file directly, several files as one compressed archive that is
+     * unpacked in the guest
+     * @param files - Files to upload, keyed by host path
+     */
+    private async uploadFiles(config: SyncConfig, files: Map<string, HostFile>): Promise<void> {
+        const modeOnly = new Map(Array.from(files).filter(([, file]) => file.modeOnly));
+        const changed = Array.from(files).filter(([, file]) => !file.modeOnly);
 
-            await this.vagrant.uploadFile(vmName, changedFile, destPath, config.credentials);
+        if (modeOnly.size > 0) {
+            await this.applyAttributes(config, modeOnly);
+        }
+        if (changed.length === 1) {
+            await this.uploadChangedFile(config, changed[0][0], changed[0][1]);
+        } else if (changed.length > 1) {
+            await this.uploadArchive(config, new Map(changed));
+        }
+    }
 
-            if (newHash) this.fileHashes.set(changedFile, newHash);
+    /**
+     * Sets the permission bits (and owner) of guest files whose content is
+     * already in sync
+     * @param files - Host files, keyed by host path
+     */
+    private async applyAttributes(config: SyncConfig, files: Map<string, HostFile>): Promise<void> {
+        const entries = Array.from(files);
+        // Batched to stay well below the guest's argument length limit
+        for (let i = 0; i < entries.length; i += 100) {
+            const batch = entries.slice(i, i + 100);
+            const startTime = Date.now();
+            const command = this.attributeCommand(config, batch.map(([hostFile, file]) => [this.toGuestPath(config, hostFile), file]));
+            const result = command ? await this.vagrant.executeCommand(config.vmName, command, config.credentials) : undefined;
+            const error = result && result.exitCode !== 0 ? result.stderr || 'chmod failed' : undefined;
+            for (const [hostFile, file] of batch) {
+                if (!error) this.recordSynced(config, hostFile, file.hash, file.mode);
+                this.recordEvent(config, hostFile, {
+                    direction: 'to_vm', action: 'mode', bytes: 0, hash: file.hash, durationMs: Date.now() - startTime, error
+                });
+            }
+            if (error) {
+                logger.warn(`Failed to set file modes in VM ${config.vmName}: ${error}`);
+            }
+        }
+        logger.info(`Updated the modes of ${entries.length} file(s) in VM ${config.vmName}`);
+    }
 
+    /**
+     * Shell command giving guest files the permission bits of their host
+     * files, and with preserveOwnership their numeric owner and group.
+     * Symlinks keep their own mode. Empty if there is nothing to set.
+     * @param files - Guest paths with the host files they copy
+     */
+    private attributeCommand(config: SyncConfig, files: Array<[string, HostFile]>): string {
+        const grouped = (attribute: (file: HostFile) => string | undefined): Map<string, string[]> => {
+            const groups = new Map<string, string[]>();
+            for (const [guestFile, file] of files) {
+                const value = attribute(file);
+                if (value !== undefined) groups.set(value, [...(groups.get(value) || []), shellQuote(guestFile)]);
+            }
+            return groups;
+        };
+
+        const commands: string[] = [];
+        for (const [mode, targets] of grouped(file => file.link ? undefined : file.mode.toString(8))) {
+            commands.push(`chmod ${mode} -- ${targets.join(' ')}`);
+        }
+        if (config.preserveOwnership) {
+            for (const [owner, targets] of grouped(file => `${file.uid}:${file.gid}`)) {
+                commands.push(`sudo -n chown -h ${owner} -- ${targets.join(' ')}`);
+            }
+        }
+        return commands.join(' && ');
+    }
+
+    /**
+     * Packs host files into a gzipped tar archive, uploads it and unpacks it
+     * under the guest path. Modes and symlinks are kept, and with
+     * preserveOwnership the numeric owners. Progress is reported as an
+     * 'upload' operation.
+     * @param files - Files to upload, keyed by host path
+     * @throws If the archive could not be uploaded or unpacked
+     */
+    private async uploadArchive(config: SyncConfig, files: Map<string, HostFile>): Promise<void> {
+        const state = this.states.get(this.keyOf(config))!;
+        const relPaths = Array.from(files.keys()).map(f => this.relPathOf(config, f));
+        const operation = this.tracker?.registerHostOperation({
+            vmName: config.vmName,
+            type: 'upload',
+            command: `sync ${relPaths.length} files to ${config.guestPath}`,
+            description: `Packing ${relPaths.length} changed files`
+        });
+        const tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'vmsync-'));
+        const archive = path.join(tempDir, 'changes.tar.gz');
+        const guestArchive = `/tmp/vmsync-${crypto.randomUUID()}.tar.gz`;
+        const startTime = Date.now();
+        state.status = 'syncing';
+
+        try {
+            // A NUL-separated file list keeps long batches off the command line
+            const fileList = path.join(tempDir, 'files');
+            await fs.promises.writeFile(fileList, relPaths.join('\0'));
+            const dereference = (config.symlinks ?? DEFAULT_SYMLINK_POLICY) === 'follow' ? ['--dereference'] : [];
+            await execa('tar', ['-czf', archive, ...dereference, '-C', config.hostPath, '--null', '-T', fileList]);
+
+            const { size } = await fs.promises.stat(archive);
+            if (operation) {
+                this.tracker!.reportProgress(operation.operationId, {
+                    bytesTotal: size,
+                    statusMessage: `Uploading ${relPaths.length} files (${size} bytes)`
+                });
+            }
+            await this.vagrant.uploadFile(config.vmName, archive, guestArchive, config.credentials);
+
+            if (operation) {
+                this.tracker!.reportProgress(operation.operationId, {
+                    bytesCompleted: size,
+                    statusMessage: `Unpacking ${relPaths.length} files in ${config.guestPath}`
+                });
+            }
+            const guestPath = shellQuote(config.guestPath);
+            const tar = config.preserveOwnership ? 'sudo -n tar --same-owner --numeric-owner' : 'tar';
+            const result = await this.vagrant.executeCommand(config.vmName,
+                `mkdir -p ${guestPath} && ${tar} -xzpf ${shellQuote(guestArchive)} -C ${guestPath}; status=$?; rm -f -- ${shellQuote(guestArchive)}; exit $status`,
+                config.credentials);
+            if (result.exitCode !== 0) {
+                throw new Error(result.stderr || `tar exited with ${result.exitCode}`);
+            }
+
+            for (const [hostFile, file] of files) {
+                this.recordSynced(config, hostFile, file.hash, file.mode);
+                this.recordEvent(config, hostFile, {
+                    direction: 'to_vm', action: 'upload', bytes: file.size, hash: file.hash, durationMs: Date.now() - startTime
+                });
+            }
+            logger.info(`Synced ${relPaths.length} files to VM ${config.vmName} in one archive (${size} bytes)`);
+            if (operation) this.tracker!.finishOperation(operation.operationId);
             state.lastSyncTime = new Date();
             state.status = 'idle';
-        } catch (error) {
-            logger.error(`Sync failed for ${vmName}`, error);
+        } catch (error: any) {
+            if (operation) this.tracker!.finishOperation(operation.operationId, error.message);
+            for (const [hostFile, file] of files) {
+                this.recordEvent(config, hostFile, {
+                    direction: 'to_vm', action: 'upload', bytes: 0, hash: file.hash, durationMs: Date.now() - startTime, error: error.message
+                });
+            }
             state.status = 'error';
+            throw error;
+        } finally {
+            await fs.promises.rm(tempDir, { recursive: true, force: true });
         }
     }
 
-    async getSyncStatus(vmName: string): Promise<SyncState | undefined> {
-        return this.states.get(vmName);
+    /**
+     * State of a pair; without an id, of the VM's only pair
+     * @throws If the pair does not exist, or the VM has several and no id was given
+     */
+    async getSyncStatus(vmName: string, pairId?: string): Promise<SyncState | undefined> {
+        if (!pairId && this.pairsOf(vmName).length === 0) return undefined;
+        return this.states.get(this.keyOf(this.requirePair(vmName, pairId)));
+    }
+
+    /**
+     * Recent transfers of a VM, newest first. Only the last
+     * MAX_HISTORY_EVENTS per VM are kept, and only while the server runs.
+     * @param options.path - Path relative to the sync root; a directory matches the files under it
+     * @param options.since - Only transfers that finished at or after this time
+     * @param options.until - Only transfers that finished at or before this time
+     * @param options.limit - Maximum number of events (default: 100)
+     */
+    getSyncHistory(vmName: string, options: { pairId?: string; path?: string; since?: Date; until?: Date; limit?: number } = {}): SyncEvent[] {
+        const filterPath = options.path?.split(path.sep).join('/').replace(/^\.?\/+|\/+$/g, '');
+        return (this.history.get(vmName) || [])
+            .filter(event => !options.pairId || event.pairId === options.pairId)
+            .filter(event => !filterPath || event.path === filterPath || event.path.startsWith(`${filterPath}/`)
+                || event.from === filterPath || !!event.from?.startsWith(`${filterPath}/`))
+            .filter(event => !options.since || event.time >= options.since)
+            .filter(event => !options.until || event.time <= options.until)
+            .reverse()
+            .slice(0, options.limit ?? 100);
     }
 
-    async resolveConflict(vmName: string, filePath: string, resolution: ConflictResolution): Promise<void> {
-        const config = this.configs.get(vmName);
-        if (!config) throw new Error(`No sync config for VM ${vmName}`);
+    /**
+     * @param filePath - Path relative to the sync root; either separator is accepted
+     * @param pairId - Pair the path belongs to (default: the VM's pair reporting it)
+     */
+    async resolveConflict(vmName: string, filePath: string, resolution: ConflictResolution, pairId?: string): Promise<void> {
+        const relPath = filePath.split(path.sep).join('/').replace(/^\.?\/+|\/+$/g, '');
+        const reporting = this.pairsOf(vmName).filter(c => {
+            const state = this.states.get(this.keyOf(c));
+            return state && (state.conflicts.some(x => x.path === relPath) || state.blockedDeletions.includes(relPath));
+        });
+        const config = pairId || reporting.length !== 1 ? this.requirePair(vmName, pairId) : reporting[0];
 
         if (resolution === 'use_host') {
-            await this.syncToVM(vmName, path.join(config.hostPath, filePath));
-        } else {
-            // use_vm: Download file from VM via cat
-            const result = await this.vagrant.executeCommand(vmName, `cat "${path.join(config.guestPath, filePath).replace(/\\/g, '/')}"`, config.credentials);
-            if (result.exitCode === 0) {
-                const hostFilePath = path.join(config.hostPath, filePath);
-                fs.mkdirSync(path.dirname(hostFilePath), { recursive: true });
-                fs.writeFileSync(hostFilePath, result.stdout);
-                logger.info(`Downloaded ${filePath} from VM ${vmName}`);
+            const hostFilePath = path.join(config.hostPath, ...relPath.split('/'));
+            if (fs.lstatSync(hostFilePath, { throwIfNoEntry: false })) {
+                await this.syncToVM(vmName, hostFilePath, { force: true, pairId: config.id });
             } else {
-                throw new Error(`Failed to read file from VM: ${result.stderr}`);
+                // Deleted on the host: delete in the guest too, bypassing the bulk cap
+                await this.deleteFromVM(config, [hostFilePath]);
+            }
+        } else {
+            // use_vm: Download the guest copy
+            const modes = new Map<string, number>();
+            const guestHash = (await this.hashGuestFiles(config, [relPath], modes)).get(relPath);
+            if (!guestHash) {
+                throw new Error(`Failed to read file from VM: ${filePath} does not exist in ${config.guestPath}`);
             }
+            await this.pullFile(config, relPath, guestHash, modes.get(relPath));
+            logger.info(`Downloaded ${filePath} from VM ${vmName}`);
         }
 
         // Remove from conflicts list
-        const state = this.states.get(vmName);
+        const state = this.states.get(this.keyOf(config));
         if (state) {
-            state.conflicts = state.conflicts.filter(c => c !== filePath);
+            state.conflicts = state.conflicts.filter(c => c.path !== relPath);
+            state.blockedDeletions = state.blockedDeletions.filter(c => c !== relPath && !c.startsWith(`${relPath}/`));
+        }
+    }
+
+    /**
+     * Compares the host and guest trees of a pair without changing either
+     * @param options.direction - Sync to report on (default: from_vm for from_vm pairs, to_vm otherwise)
+     * @param options.filePath - Also diff this file, relative to the sync root
+     * @param options.pairId - Pair to compare (default: the VM's only pair)
+     */
+    async diffSync(vmName: string, options: { direction?: 'to_vm' | 'from_vm'; filePath?: string; pairId?: string } = {}): Promise<SyncDiff> {
+        const config = this.requirePair(vmName, options.pairId);
+        const direction = options.direction || (config.direction === 'from_vm' ? 'from_vm' : 'to_vm');
+        const toPosix = (relPath: string) => relPath.split(path.sep).join('/');
+
+        const excluded = new Map<string, SyncDiffEntry>();
+        const hostVersion = async (relPath: string) => ({
+            size: (await fs.promises.stat(path.join(config.hostPath, relPath))).size,
+            hash: (await this.computeHash(path.join(config.hostPath, relPath))) || ''
+        });
+        const excludedHostPaths: Array<[string, boolean]> = [];
+        const hostFiles = new Map<string, { size: number; hash: string }>();
+        for (const relPath of await this.listHostFiles(config, (p, isDirectory) => excludedHostPaths.push([p, isDirectory]))) {
+            // Links synced as links are not compared
+            if (fs.lstatSync(path.join(config.hostPath, relPath)).isSymbolicLink() && (config.symlinks ?? DEFAULT_SYMLINK_POLICY) !== 'follow') continue;
+            hostFiles.set(toPosix(relPath), await hostVersion(relPath));
+        }
+        for (const [relPath, isDirectory] of excludedHostPaths) {
+            excluded.set(isDirectory ? `${toPosix(relPath)}/` : toPosix(relPath), {
+                path: isDirectory ? `${toPosix(relPath)}/` : toPosix(relPath),
+                host: isDirectory ? undefined : await hostVersion(relPath)
+            });
+        }
+
+        const guestFiles = new Map<string, { size: number; hash: string }>();
+        const exists = await this.vagrant.executeCommand(vmName, `test -d ${shellQuote(config.guestPath)}`, config.credentials);
+        if (exists.exitCode === 0) {
+            const sizes = await this.guestFileSizes(config);
+            const excludedDirectory = (relPath: string) => {
+                const parts = relPath.split('/');
+                const dirIndex = parts.findIndex((_, i) => i < parts.length - 1 && this.isExcluded(config, parts.slice(0, i + 1).join('/'), true));
+                return dirIndex === -1 ? null : `${parts.slice(0, dirIndex + 1).join('/')}/`;
+            };
+            const guestListing = await this.listGuestFiles(config, relPath => {
+                // Reported like the files of an excluded directory would be
+                const key = excludedDirectory(`${relPath}/`) ?? `${relPath}/`;
+                excluded.set(key, excluded.get(key) || { path: key });
+            });
+            for (const [relPath, hash] of guestListing) {
+                const version = { size: sizes.get(relPath) ?? 0, hash };
+                if (!this.isExcluded(config, relPath)) {
+                    guestFiles.set(relPath, version);
+                    continue;
+                }
+                // Files in an excluded directory are reported as the directory
+                const directory = excludedDirectory(relPath);
+                const key = directory ?? relPath;
+                const entry = excluded.get(key) || { path: key };
+                if (!directory) entry.guest = version;
+                excluded.set(key, entry);
+            }
+        }
+
+        const [source, target] = direction === 'to_vm' ? [hostFiles, guestFiles] : [guestFiles, hostFiles];
+        const entry = (relPath: string): SyncDiffEntry => ({ path: relPath, host: hostFiles.get(relPath), guest: guestFiles.get(relPath) });
+        const result: SyncDiff = {
+            direction,
+            added: [],
+            modified: [],
+            deleted: [],
+            excluded: Array.from(excluded.values()).sort((x, y) => x.path.localeCompare(y.path)),
+            unchanged: 0
+        };
+        for (const relPath of Array.from(new Set([...source.keys(), ...target.keys()])).sort()) {
+            const from = source.get(relPath);
+            const to = target.get(relPath);
+            if (!to) result.added.push(entry(relPath));
+            else if (!from) result.deleted.push(entry(relPath));
+            else if (from.hash !== to.hash) result.modified.push(entry(relPath));
+            else result.unchanged++;
+        }
+
+        if (options.filePath) {
+            result.diff = await this.diffFile(config, toPosix(options.filePath), direction, guestFiles.has(toPosix(options.filePath)));
         }
+        return result;
+    }
+
+    /**
+     * Unified diff of one file from the target side's copy to the source side's
+     * @param relPath - Posix path relative to the sync root
+     */
+    private async diffFile(config: SyncConfig, relPath: string, direction: 'to_vm' | 'from_vm', inGuest: boolean): Promise<string> {
+        const hostFile = path.join(config.hostPath, ...relPath.split('/'));
+        const guestFile = `${config.guestPath.replace(/\/+$/, '')}/${relPath}`;
+        const hostContent = fs.existsSync(hostFile) ? await fs.promises.readFile(hostFile) : undefined;
+
+        let guestContent: Buffer | undefined;
+        if (inGuest) {
+            const tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'vmsync-'));
+            try {
+                await this.vagrant.downloadFile(config.vmName, guestFile, path.join(tempDir, 'file'), {
+                    ...config.credentials,
+                    verifyChecksum: false,
+                    literal: true
+                });
+                guestContent = await fs.promises.readFile(path.join(tempDir, 'file'));
+            } finally {
+                await fs.promises.rm(tempDir, { recursive: true, force: true });
+            }
+        }
+        if (!hostContent && !guestContent) {
+            throw new Error(`${relPath} exists neither on the host nor in the guest`);
+        }
+
+        const host = { label: hostContent ? `host:${hostFile}` : '/dev/null', content: hostContent };
+        const guest = { label: guestContent ? `guest:${guestFile}` : '/dev/null', content: guestContent };
+        const [from, to] = direction === 'to_vm' ? [guest, host] : [host, guest];
+        if (from.content?.includes(0) || to.content?.includes(0)) {
+            return from.content && to.content && from.content.equals(to.content) ? '' : `Binary files ${from.label} and ${to.label} differ\n`;
+        }
+        return unifiedDiff(from.content?.toString('utf8') ?? '', to.content?.toString('utf8') ?? '', from.label, to.label);
     }
 
     /**
      * Trigger a full rsync to VM (used by sync_to_vm tool)
+     * @param pairId - Pair to upload when rsync is unavailable (default: all pairs of the VM).
+     * With several pairs, synced files are prefixed with the pair id.
      */
-    async syncToVMFull(vmName: string): Promise<{ syncedFiles: string[]; syncTimeMs: number }> {
+    async syncToVMFull(vmName: string, pairId?: string): Promise<{ syncedFiles: string[]; syncTimeMs: number }> {
         const startTime = Date.now();
-        const state = this.states.get(vmName);
-        const config = this.configs.get(vmName);
-        if (state) state.status = 'syncing';
+        const pairs = this.selectPairs(vmName, pairId);
+        const states = pairs.map(c => this.states.get(this.keyOf(c))).filter((s): s is SyncState => s !== undefined);
+        states.forEach(state => state.status = 'syncing');
 
         try {
             try {
                 await this.vagrant.rsyncToVM(vmName);
             } catch (error) {
-                if (config) {
+                if (pairs.length > 0) {
                     logger.info(`Vagrant rsync failed for ${vmName}, falling back to native recursive upload...`);
-                    await this.vagrant.uploadFile(vmName, config.hostPath, config.guestPath, config.credentials);
+                    const syncedFiles: string[] = [];
+                    for (const config of pairs) {
+                        // One archive of the files that are not excluded, so modes and links are kept
+                        const files = new Map<string, HostFile>();
+                        for (const relPath of await this.listHostFiles(config)) {
+                            const file = await this.hostFileInfo(config, path.join(config.hostPath, relPath));
+                            if (file) files.set(path.join(config.hostPath, relPath), file);
+                        }
+                        await this.uploadArchive(config, files);
+                        syncedFiles.push(...Array.from(files.keys())
+                            .map(f => path.relative(config.hostPath, f))
+                            .map(f => pairs.length > 1 ? `${config.id}:${f}` : f));
+                    }
+                    states.forEach(state => {
+                        state.status = 'idle';
+                        state.lastSyncTime = new Date();
+                    });
+                    return { syncedFiles, syncTimeMs: Date.now() - startTime };
                 } else {
                     throw error;
                 }
             }
             const syncTimeMs = Date.now() - startTime;
-            if (state) {
+            states.forEach(state => {
                 state.status = 'idle';
                 state.lastSyncTime = new Date();
-            }
+            });
             return { syncedFiles: ['(full sync completed)'], syncTimeMs };
         } catch (error) {
-            if (state) state.status = 'error';
+            states.forEach(state => state.status = 'error');
             throw error;
         }
     }
 
     /**
      * Trigger a full rsync from VM (used by sync_from_vm tool)
+     * @param pairId - Pair to download when rsync-back is unavailable (default: all pairs of the VM).
+     * With several pairs, synced files are prefixed with the pair id.
+     * Files that fail to download are listed in failedFiles; the rest are still pulled.
      */
-    async syncFromVMFull(vmName: string): Promise<{ syncedFiles: string[]; syncTimeMs: number }> {
+    async syncFromVMFull(vmName: string, pairId?: string): Promise<{ syncedFiles: string[]; failedFiles?: string[]; syncTimeMs: number }> {
         const startTime = Date.now();
-        const state = this.states.get(vmName);
-        const config = this.configs.get(vmName);
-        if (state) state.status = 'syncing';
+        const pairs = this.selectPairs(vmName, pairId);
+        const states = pairs.map(c => this.states.get(this.keyOf(c))).filter((s): s is SyncState => s !== undefined);
+        states.forEach(state => state.status = 'syncing');
 
         try {
             try {
                 await this.vagrant.rsyncFromVM(vmName);
             } catch (error) {
-                if (config) {
+                if (pairs.length > 0) {
                     logger.info(`Vagrant rsync-back failed for ${vmName}, falling back to manual download...`);
-                    // Note: Manual recursive download from VM is complex with guestcontrol.
-                    // For now we'll throw an informative error or implement individual file download if needed.
-                    throw new Error(`Full sync from native VM is not yet supported. Use 'resolve_conflict' for specific files.`);
+                    const syncedFiles: string[] = [];
+                    const failedFiles: string[] = [];
+                    for (const config of pairs) {
+                        const { pulled, failed } = await this.pullChangedFiles(config);
+                        syncedFiles.push(...pulled.map(f => pairs.length > 1 ? `${config.id}:${f}` : f));
+                        failedFiles.push(...failed.map(f => pairs.length > 1 ? `${config.id}:${f}` : f));
+                        const state = this.states.get(this.keyOf(config));
+                        if (state) {
+                            state.status = failed.length > 0 ? 'error' : 'idle';
+                            state.lastSyncTime = new Date();
+                        }
+                    }
+                    return failedFiles.length > 0
+                        ? { syncedFiles, failedFiles, syncTimeMs: Date.now() - startTime }
+                        : { syncedFiles, syncTimeMs: Date.now() - startTime };
                 } else {
                     throw error;
                 }
             }
             const syncTimeMs = Date.now() - startTime;
-            if (state) {
+            states.forEach(state => {
                 state.status = 'idle';
                 state.lastSyncTime = new Date();
-            }
+            });
             return { syncedFiles: ['(full sync from VM completed)'], syncTimeMs };
         } catch (error) {
-            if (state) state.status = 'error';
+            states.forEach(state => state.status = 'error');
+            throw error;
+        }
+    }
+
+    /**
+     * Guest path of a host file in the sync root
+     */
+    private toGuestPath(config: SyncConfig, hostFile: string): string {
+        const relPath = path.relative(config.hostPath, hostFile);
+        return path.join(config.guestPath, relPath).replace(/\\/g, '/'); // Ensure posix paths for VM
+    }
+
+    /**
+     * Records a host deletion. Deletions are applied in batches so that
+     * renames can be recognised and mass deletions held back.
+     */
+    private queueDeletion(config: SyncConfig, hostFile: string, isDirectory: boolean): void {
+        const key = this.keyOf(config);
+        if (!this.configs.has(key)) return;
+
+        let pending = this.pendingDeletions.get(key);
+        if (!pending) {
+            pending = new Map();
+            this.pendingDeletions.set(key, pending);
+        }
+        pending.set(hostFile, { isDirectory, hash: this.entryOf(config, hostFile)?.host });
+
+        clearTimeout(this.deletionTimers.get(key));
+        this.deletionTimers.set(key, setTimeout(() => {
+            this.deletionTimers.delete(key);
+            this.flushDeletions(key).catch(error => logger.error(`Failed to apply deletions for ${config.vmName} (${config.id})`, error));
+        }, DELETION_BATCH_MS));
+    }
+
+    /**
+     * Turns a pending deletion with the same content into a move in the guest
+     * @returns Whether the file was moved rather than needing an upload
+     */
+    private async applyRename(config: SyncConfig, hostFile: string, file: HostFile): Promise<boolean> {
+        const pending = this.pendingDeletions.get(this.keyOf(config));
+        const source = Array.from(pending?.entries() || []).find(([, p]) => !p.isDirectory && p.hash === file.hash)?.[0];
+        if (!pending || !source) return false;
+
+        pending.delete(source);
+        const from = this.toGuestPath(config, source);
+        const to = this.toGuestPath(config, hostFile);
+        const attributes = this.attributeCommand(config, [[to, file]]);
+        const startTime = Date.now();
+        const result = await this.vagrant.executeCommand(config.vmName,
+            `mkdir -p ${shellQuote(path.posix.dirname(to))} && mv -f -- ${shellQuote(from)} ${shellQuote(to)}${attributes ? ` && ${attributes}` : ''}`,
+            config.credentials);
+        if (result.exitCode !== 0) {
+            // Fall back to uploading the new file and deleting the old one
+            logger.warn(`Failed to move ${from} to ${to} in VM ${config.vmName}: ${result.stderr}`);
+            pending.set(source, { isDirectory: false, hash: file.hash });
+            return false;
+        }
+
+        logger.info(`Renamed ${path.relative(config.hostPath, source)} to ${path.relative(config.hostPath, hostFile)} in VM ${config.vmName}`);
+        this.manifests.get(this.keyOf(config))?.delete(this.relPathOf(config, source));
+        this.recordSynced(config, hostFile, file.hash, file.mode);
+        this.recordEvent(config, hostFile, {
+            direction: 'to_vm',
+            action: 'rename',
+            from: this.relPathOf(config, source),
+            bytes: 0,
+            hash: file.hash,
+            durationMs: Date.now() - startTime
+        });
+        return true;
+    }
+
+    /**
+     * Applies the pending deletions of a pair, unless there are more than
+     * its maxBulkDeletions; those are recorded in the sync state instead
+     */
+    private async flushDeletions(key: string): Promise<void> {
+        const pending = this.pendingDeletions.get(key);
+        const config = this.configs.get(key);
+        this.pendingDeletions.delete(key);
+        if (!pending || !config || config.paused) return;
+
+        // Paths recreated in the meantime are not deletions any more
+        const deleted = Array.from(pending.keys()).filter(f => !fs.lstatSync(f, { throwIfNoEntry: false }));
+        if (deleted.length === 0) return;
+
+        const limit = config.maxBulkDeletions ?? DEFAULT_MAX_BULK_DELETIONS;
+        const state = this.states.get(key)!;
+        if (deleted.length > limit) {
+            const relPaths = deleted.map(f => this.relPathOf(config, f));
+            state.blockedDeletions = Array.from(new Set([...state.blockedDeletions, ...relPaths]));
+            logger.warn(`Held back ${deleted.length} deletions for VM ${config.vmName} (limit ${limit}); see sync_status`);
+            return;
+        }
+
+        await this.deleteFromVM(config, deleted);
+    }
+
+    /**
+     * Deletes host paths' counterparts in the guest
+     */
+    private async deleteFromVM(config: SyncConfig, hostFiles: string[]): Promise<void> {
+        // Files inside a deleted directory go with it
+        const roots = hostFiles.filter(f => !hostFiles.some(other => other !== f && f.startsWith(other + path.sep)));
+        const state = this.states.get(this.keyOf(config))!;
+        const startTime = Date.now();
+        state.status = 'syncing';
+
+        try {
+            const targets = roots.map(f => shellQuote(this.toGuestPath(config, f))).join(' ');
+            const result = await this.vagrant.executeCommand(config.vmName, `rm -rf -- ${targets}`, config.credentials);
+            if (result.exitCode !== 0) {
+                throw new Error(result.stderr || 'rm failed');
+            }
+
+            const manifest = this.manifests.get(this.keyOf(config));
+            const rootPaths = roots.map(f => this.relPathOf(config, f));
+            for (const relPath of Array.from(manifest?.keys() || [])) {
+                if (rootPaths.some(root => relPath === root || relPath.startsWith(`${root}/`))) manifest!.delete(relPath);
+            }
+            this.scheduleSave(config.vmName);
+            for (const root of roots) {
+                this.recordEvent(config, root, { direction: 'to_vm', action: 'delete', bytes: 0, durationMs: Date.now() - startTime });
+            }
+            logger.info(`Deleted ${roots.length} path(s) in VM ${config.vmName}`);
+            state.lastSyncTime = new Date();
+            state.status = 'idle';
+        } catch (error: any) {
+            logger.error(`Deletion sync failed for ${config.vmName}`, error);
+            for (const root of roots) {
+                this.recordEvent(config, root, {
+                    direction: 'to_vm', action: 'delete', bytes: 0, durationMs: Date.now() - startTime, error: error.message
+                });
+            }
+            state.status = 'error';
+        }
+    }
+
+    /**
+     * Lists the files under the guest path with their MD5 hashes, keyed by
+     * posix path relative to the guest path. Excluded directories are not
+     * descended into.
+     * @param onPruned - Called with each skipped directory
+     * @param modes - Filled with the permission bits of each file, in the same pass
+     */
+    private async listGuestFiles(
+        config: SyncConfig,
+        onPruned?: (relPath: string) => void,
+        modes?: Map<string, number>
+    ): Promise<Map<string, string>> {
+        const names = this.matchers.get(this.keyOf(config))?.toDirectoryNameGlobs() ?? [];
+        const prune = names.length > 0
+            ? `-type d \\( ${names.map(n => `-name ${shellQuote(n)}`).join(' -o ')} \\) -prune -print -o `
+            : '';
+        const statModes = modes ? ` -exec sh -c ${GUEST_MODE_STAT} sh {} +` : '';
+        const result = await this.vagrant.executeCommand(config.vmName,
+            `cd ${shellQuote(config.guestPath)} && find . ${prune}-type f -exec md5sum {} +${statModes}`, config.credentials);
+        if (result.exitCode !== 0) {
+            throw new Error(`Failed to list ${config.guestPath} in VM ${config.vmName}: ${result.stderr}`);
+        }
+
+        const files = new Map<string, string>();
+        for (const line of result.stdout.split('\n')) {
+            const match = line.match(/^([0-9a-f]{32}) [ *]\.\/(.+)$/);
+            const mode = line.match(/^M ([0-7]+) \.\/(.+)$/);
+            if (match) {
+                files.set(match[2], match[1]);
+            } else if (mode) {
+                modes?.set(mode[2], parseInt(mode[1], 8));
+            } else if (line.startsWith('./')) {
+                onPruned?.(line.slice(2));
+            }
+        }
+        return files;
+    }
+
+    /**
+     * Sizes of the files under the guest path, keyed by posix path relative to it
+     */
+    private async guestFileSizes(config: SyncConfig): Promise<Map<string, number>> {
+        const stats = await statGuestTree(this.vagrant, config.vmName, config.guestPath, {
+            credentials: config.credentials,
+            excludes: this.matchers.get(this.keyOf(config))?.toDirectoryNameGlobs()
+        });
+        return new Map(Array.from(stats, ([relPath, stat]) => [relPath, stat.size]));
+    }
+
+    /**
+     * MD5 hashes of some guest files, keyed by the given relative paths.
+     * Files that no longer exist are left out.
+     * @param modes - Filled with the permission bits of each file, in the same command
+     */
+    private async hashGuestFiles(config: SyncConfig, relPaths: string[], modes?: Map<string, number>): Promise<Map<string, string>> {
+        const root = config.guestPath.replace(/\/+$/, '');
+        const hashes = new Map<string, string>();
+        // Batched to stay well below the guest's argument length limit
+        for (let i = 0; i < relPaths.length; i += 100) {
+            const args = relPaths.slice(i, i + 100).map(f => shellQuote(`${root}/${f}`)).join(' ');
+            const statModes = modes ? `; sh -c ${GUEST_MODE_STAT} sh ${args}` : '';
+            const result = await this.vagrant.executeCommand(config.vmName, `md5sum -- ${args}${statModes}`, config.credentials);
+            for (const line of result.stdout.split('\n')) {
+                const match = line.match(/^([0-9a-f]{32}) [ *](.+)$/);
+                const mode = line.match(/^M ([0-7]+) (.+)$/);
+                if (match && match[2].startsWith(`${root}/`)) hashes.set(match[2].slice(root.length + 1), match[1]);
+                if (mode && mode[2].startsWith(`${root}/`)) modes?.set(mode[2].slice(root.length + 1), parseInt(mode[1], 8));
+            }
+        }
+        return hashes;
+    }
+
+    /**
+     * Downloads the guest files whose content differs from the host copy.
+     * Used when `vagrant rsync-back` is unavailable (e.g. native VMs) and
+     * for changes reported by the guest watcher.
+     * A file that fails to download is recorded in the history and skipped.
+     * @param relPaths - Only consider these files (default: the whole guest tree)
+     * @returns Paths of the downloaded and of the failed files, relative to the sync root
+     */
+    private async pullChangedFiles(config: SyncConfig, relPaths?: string[]): Promise<{ pulled: string[]; failed: string[] }> {
+        const guestModes = new Map<string, number>();
+        const guestFiles = relPaths
+            ? await this.hashGuestFiles(config, relPaths.filter(f => !this.isExcluded(config, f)), guestModes)
+            : await this.listGuestFiles(config, undefined, guestModes);
+        const syncedFiles: string[] = [];
+        const failedFiles: string[] = [];
+
+        for (const [relPath, guestHash] of guestFiles) {
+            if (this.isExcluded(config, relPath)) continue;
+
+            const hostFile = path.join(config.hostPath, ...relPath.split('/'));
+            // Links are synced from the host only
+            if ((config.symlinks ?? DEFAULT_SYMLINK_POLICY) !== 'follow' && fs.lstatSync(hostFile, { throwIfNoEntry: false })?.isSymbolicLink()) continue;
+            const hostHash = await this.computeHash(hostFile);
+            if (hostHash === guestHash) {
+                this.recordSynced(config, hostFile, guestHash);
+                continue;
+            }
+
+            const base = this.entryOf(config, hostFile);
+            const baseGuestHash = base?.guest;
+            if (config.direction === 'bidirectional' && !hostHash && baseGuestHash) {
+                if (guestHash === baseGuestHash) {
+                    // Only deleted on the host; the deletion goes to the guest
+                    this.queueDeletion(config, hostFile, false);
+                } else {
+                    // Deleted on the host but changed in the guest
+                    const guest = await this.guestFileVersion(config, relPath);
+                    if (guest) await this.recordConflict(config, relPath, guest);
+                }
+                continue;
+            }
+            if (config.direction === 'bidirectional' && hostHash && baseGuestHash) {
+                // Only the host changed; its copy is the newer one
+                if (guestHash === baseGuestHash) continue;
+                // Both sides changed since the last sync
+                if (hostHash !== base?.host) {
+                    const guest = await this.guestFileVersion(config, relPath);
+                    if (guest) await this.recordConflict(config, relPath, guest);
+                    continue;
+                }
+            }
+            if (config.direction === 'bidirectional' && hostHash && !base) {
+                // Created on both sides (or the manifest was lost); neither copy is known to be newer
+                const guest = await this.guestFileVersion(config, relPath);
+                if (guest) await this.recordConflict(config, relPath, guest);
+                continue;
+            }
+
+            try {
+                await this.pullFile(config, relPath, guestHash, guestModes.get(relPath));
+                syncedFiles.push(relPath);
+            } catch (error: any) {
+                logger.warn(`Failed to pull ${relPath} from VM ${config.vmName}: ${error.message}`);
+                failedFiles.push(relPath);
+            }
+        }
+
+        logger.info(`Pulled ${syncedFiles.length} changed file(s) of ${guestFiles.size} from VM ${config.vmName}`
+            + (failedFiles.length > 0 ? `; ${failedFiles.length} failed` : ''));
+        return { pulled: syncedFiles, failed: failedFiles };
+    }
+
+    /**
+     * Downloads one guest file over its host copy and records it as synced
+     * @param relPath - Posix path relative to the sync root
+     * @param guestHash - Expected MD5 of the guest file
+     * @param mode - Permission bits of the guest file, given to the host copy
+     */
+    private async pullFile(config: SyncConfig, relPath: string, guestHash: string, mode?: number): Promise<void> {
+        const hostFile = path.join(config.hostPath, ...relPath.split('/'));
+        const guestFile = `${config.guestPath.replace(/\/+$/, '')}/${relPath}`;
+        const startTime = Date.now();
+        let hostHash: string | null;
+        try {
+            await this.vagrant.downloadGuestFile(config.vmName, guestFile, hostFile, config.credentials);
+            hostHash = await this.computeHash(hostFile);
+            if (hostHash !== guestHash) {
+                throw new Error(`Checksum mismatch after downloading ${relPath} from VM ${config.vmName}`);
+            }
+        } catch (error: any) {
+            this.recordEvent(config, hostFile, {
+                direction: 'from_vm', action: 'download', bytes: 0, hash: guestHash, durationMs: Date.now() - startTime, error: error.message
+            });
             throw error;
         }
+
+        // Keeps e.g. scripts created in the guest executable
+        if (mode !== undefined) await fs.promises.chmod(hostFile, mode);
+        // Keeps the host watcher from sending the file straight back
+        const stats = await fs.promises.stat(hostFile);
+        this.recordSynced(config, hostFile, hostHash, stats.mode & 0o7777);
+        this.recordEvent(config, hostFile, {
+            direction: 'from_vm', action: 'download', bytes: stats.size, hash: hostHash, durationMs: Date.now() - startTime
+        });
+    }
+
+    /**
+     * Records that host and guest agree on a file's content
+     * @param mode - Host permission bits the guest copy was given
+     */
+    private recordSynced(config: SyncConfig, hostFile: string, hash: string, mode?: number): void {
+        const key = this.keyOf(config);
+        if (!this.manifests.has(key)) this.manifests.set(key, new Map());
+        const relPath = this.relPathOf(config, hostFile);
+        const manifest = this.manifests.get(key)!;
+        manifest.set(relPath, { host: hash, guest: hash, mode: mode ?? manifest.get(relPath)?.mode });
+        this.scheduleSave(config.vmName);
+    }
+
+    /**
+     * Appends a transfer to the VM's history, dropping the oldest beyond MAX_HISTORY_EVENTS
+     * @param hostFile - Host path of the transferred file
+     */
+    private recordEvent(config: SyncConfig, hostFile: string, event: Omit<SyncEvent, 'time' | 'pairId' | 'path'>): void {
+        const events = this.history.get(config.vmName) || [];
+        events.push({
+            time: new Date(),
+            pairId: config.id!,
+            path: this.relPathOf(config, hostFile),
+            ...event
+        });
+        if (events.length > MAX_HISTORY_EVENTS) events.splice(0, events.length - MAX_HISTORY_EVENTS);
+        this.history.set(config.vmName, events);
+    }
+
+    /**
+     * Hash, size and modification time of a guest file, or null if it does not exist
+     * @param relPath - Posix path relative to the sync root
+     */
+    private async guestFileVersion(config: SyncConfig, relPath: string): Promise<FileVersion | null> {
+        const guestFile = shellQuote(`${config.guestPath.replace(/\/+$/, '')}/${relPath}`);
+        const result = await this.vagrant.executeCommand(config.vmName,
+            `stat -c '%s %Y' -- ${guestFile} && md5sum -- ${guestFile}`, config.credentials);
+        const match = result.stdout.match(/^(\d+) (\d+)\n([0-9a-f]{32}) /);
+        if (result.exitCode !== 0 || !match) return null;
+        return {
+            hash: match[3],
+            size: parseInt(match[1], 10),
+            mtime: new Date(parseInt(match[2], 10) * 1000)
+        };
+    }
+
+    /**
+     * Adds or refreshes a conflict in the pair's sync state
+     * @param relPath - Posix path relative to the sync root
+     */
+    private async recordConflict(config: SyncConfig, relPath: string, guest: FileVersion): Promise<void> {
+        const hostFile = path.join(config.hostPath, ...relPath.split('/'));
+        const stats = await fs.promises.stat(hostFile).catch(() => null);
+        const conflict: SyncConflict = {
+            path: relPath,
+            host: stats ? {
+                hash: (await this.computeHash(hostFile)) || '',
+                size: stats.size,
+                mtime: stats.mtime
+            } : undefined,
+            guest,
+            detectedAt: new Date()
+        };
+
+        const state = this.states.get(this.keyOf(config))!;
+        state.conflicts = [...state.conflicts.filter(c => c.path !== relPath), conflict];
+        logger.warn(`Sync conflict on ${relPath} for VM ${config.vmName}: ${stats ? 'changed on both host and guest' : 'deleted on the host but changed in the guest'}`);
     }
 }
 
@@ -226,3 +1681,8 @@ export { OperationTracker, ProgressInfo, OperationType, OperationStatus, StartOp
 // Export GuardrailsManager for safety
 export { GuardrailsManager, Violation } from './guardrails-manager.js';
 
+// Export GuestWatcher for guest-side change detection
+export { GuestWatcher, GuestWatcherOptions, GuestWatchMode } from './guest-watcher.js';
+
+// Export SyncStore for persisted sync pairs
+export { SyncStore, StoredSyncPair, ManifestEntry } from './sync-store.js';
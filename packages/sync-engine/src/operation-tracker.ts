@@ -237,6 +237,93 @@ export class OperationTracker {
         return { operationId, progress };
     }
 
+    /**
+     * Registers an operation performed by the host, such as a transfer to the VM.
+     * Nothing is started in the VM; the caller reports progress with
+     * reportProgress and ends the operation with finishOperation.
+     *
+     * @param options - Options for the operation
+     * @returns Initial progress info
+     */
+    registerHostOperation(options: Pick<StartOperationOptions, 'vmName' | 'type' | 'command' | 'expectedBytes' | 'description'>): ProgressInfo {
+        const now = new Date();
+        const progress: ProgressInfo = {
+            operationId: randomUUID(),
+            type: options.type,
+            status: 'running',
+            vmName: options.vmName,
+            bytesTotal: options.expectedBytes,
+            bytesCompleted: 0,
+            percentComplete: 0,
+            startedAt: now,
+            lastUpdatedAt: now,
+            command: options.command,
+            statusMessage: options.description || `Started ${options.type} operation`
+        };
+
+        this.operations.set(progress.operationId, progress);
+        if (!this.operationsByVM.has(options.vmName)) {
+            this.operationsByVM.set(options.vmName, new Set());
+        }
+        this.operationsByVM.get(options.vmName)!.add(progress.operationId);
+
+        logger.info(`Started host operation ${progress.operationId} on VM ${options.vmName}`);
+        return progress;
+    }
+
+    /**
+     * Updates the progress of a host operation
+     *
+     * @param operationId - The operation to update
+     * @param update - New byte counts and/or status message
+     */
+    reportProgress(operationId: string, update: { bytesTotal?: number; bytesCompleted?: number; statusMessage?: string }): void {
+        const progress = this.operations.get(operationId);
+        if (!progress || progress.status !== 'running') return;
+
+        const now = new Date();
+        if (update.bytesTotal !== undefined) progress.bytesTotal = update.bytesTotal;
+        if (update.bytesCompleted !== undefined) {
+            const timeDelta = (now.getTime() - progress.lastUpdatedAt.getTime()) / 1000;
+            if (timeDelta > 0) {
+                progress.bytesPerSecond = Math.round((update.bytesCompleted - (progress.bytesCompleted || 0)) / timeDelta);
+            }
+            progress.bytesCompleted = update.bytesCompleted;
+        }
+        if (progress.bytesTotal && progress.bytesTotal > 0) {
+            progress.percentComplete = Math.round(((progress.bytesCompleted || 0) / progress.bytesTotal) * 100);
+        }
+        if (update.statusMessage) progress.statusMessage = update.statusMessage;
+        progress.lastUpdatedAt = now;
+        progress.durationSeconds = (now.getTime() - progress.startedAt.getTime()) / 1000;
+    }
+
+    /**
+     * Ends a host operation. Operations that were cancelled in the meantime keep that status.
+     *
+     * @param operationId - The operation to end
+     * @param errorMessage - Marks the operation failed
+     */
+    finishOperation(operationId: string, errorMessage?: string): void {
+        const progress = this.operations.get(operationId);
+        if (!progress || progress.status !== 'running') return;
+
+        const now = new Date();
+        if (errorMessage) {
+            progress.status = 'failed';
+            progress.errorMessage = errorMessage;
+            progress.statusMessage = `Operation failed: ${errorMessage}`;
+        } else {
+            progress.status = 'completed';
+            progress.bytesCompleted = progress.bytesTotal ?? progress.bytesCompleted;
+            progress.percentComplete = 100;
+            progress.statusMessage = 'Operation completed successfully';
+        }
+        progress.completedAt = now;
+        progress.lastUpdatedAt = now;
+        progress.durationSeconds = (now.getTime() - progress.startedAt.getTime()) / 1000;
+    }
+
     /**
      * Builds a command that runs in background and can be tracked
      */
@@ -264,6 +351,11 @@ export class OperationTracker {
             return progress;
         }
 
+        // Host operations report their own progress
+        if (progress.pid === undefined) {
+            return progress;
+        }
+
         const now = new Date();
         const durationSeconds = (now.getTime() - progress.startedAt.getTime()) / 1000;
 
@@ -0,0 +1,123 @@
+/**
+ * SyncStore - Sync pairs persisted across server restarts
+ *
+ * Keeps each pair's configuration and file manifest (the hashes host and
+ * guest had at the last sync), so that watchers can be restored on boot
+ * without re-uploading unchanged files. Every VM has a JSON file of its
+ * own: `<vmsDir>/<vm>/.sync-state.json` for managed VMs, and
+ * `<vmsDir>/.sync-state.<vm>.json` for native VMs, which have no project
+ * directory.
+ */
+
+import { logger } from '@virtualbox-mcp/shared-utils';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { SyncConfig } from './index.js';
+
+const STATE_FILE_NAME = '.sync-state.json';
+
+/**
+ * State file of native VMs, named after the encoded VM name
+ */
+const NATIVE_STATE_FILE = /^\.sync-state\.(.+)\.json$/;
+
+/**
+ * Hashes of one file at its last sync
+ */
+export interface ManifestEntry {
+    /** MD5 of the host copy */
+    host: string;
+    /** MD5 of the guest copy */
+    guest: string;
+    /** Host permission bits the guest copy was given, if known */
+    mode?: number;
+}
+
+/**
+ * A sync pair as stored on disk
+ */
+export interface StoredSyncPair {
+    config: SyncConfig;
+    /** Manifest keyed by posix path relative to the sync root */
+    files: Record<string, ManifestEntry>;
+}
+
+export class SyncStore {
+    /**
+     * @param vmsDir - VagrantClient's VMs directory. The state files may
+     * contain guest credentials, so they are created readable by their
+     * owner only.
+     */
+    constructor(private vmsDir: string) { }
+
+    /**
+     * Pairs of all VMs
+     */
+    load(): StoredSyncPair[] {
+        return this.stateFiles().flatMap(file => this.read(file));
+    }
+
+    /**
+     * Replaces the stored pairs of one VM; no pairs removes its file
+     * @param managed - Whether the VM has a project directory (VagrantClient.managedBy)
+     */
+    save(vmName: string, pairs: StoredSyncPair[], managed: boolean): void {
+        if (pairs.length === 0) {
+            // The VM may already be gone, so both locations are cleared
+            fs.rmSync(this.fileOf(vmName, true), { force: true });
+            fs.rmSync(this.fileOf(vmName, false), { force: true });
+            return;
+        }
+        const filePath = this.fileOf(vmName, managed);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        // Written to a temporary file first so a crash never leaves half a manifest
+        const tempFile = `${filePath}.tmp`;
+        fs.writeFileSync(tempFile, JSON.stringify({ pairs }, null, 2), { mode: 0o600 });
+        fs.renameSync(tempFile, filePath);
+    }
+
+    /**
+     * State file of a VM: in its project directory if it is managed (or an
+     * environment machine), next to the projects otherwise
+     */
+    private fileOf(vmName: string, managed: boolean): string {
+        if (managed) {
+            return path.join(this.vmsDir, ...vmName.split('/'), STATE_FILE_NAME);
+        }
+        return path.join(this.vmsDir, `.sync-state.${encodeURIComponent(vmName)}.json`);
+    }
+
+    /**
+     * Existing per-VM state files: native ones, then those of projects and
+     * of environment machines
+     */
+    private stateFiles(): string[] {
+        if (!fs.existsSync(this.vmsDir)) return [];
+        const files: string[] = [];
+        for (const entry of fs.readdirSync(this.vmsDir, { withFileTypes: true })) {
+            const entryPath = path.join(this.vmsDir, entry.name);
+            if (entry.isFile() && NATIVE_STATE_FILE.test(entry.name)) {
+                files.push(entryPath);
+            } else if (entry.isDirectory()) {
+                files.push(path.join(entryPath, STATE_FILE_NAME));
+                for (const machine of fs.readdirSync(entryPath, { withFileTypes: true })) {
+                    if (machine.isDirectory()) files.push(path.join(entryPath, machine.name, STATE_FILE_NAME));
+                }
+            }
+        }
+        return files.filter(file => fs.existsSync(file));
+    }
+
+    private read(filePath: string): StoredSyncPair[] {
+        if (!fs.existsSync(filePath)) return [];
+        try {
+            const data = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+            return Array.isArray(data.pairs) ? data.pairs : [];
+        } catch (error) {
+            logger.error(`Failed to read sync state ${filePath}`, error);
+            return [];
+        }
+    }
+}
+
+export { SyncStore as default };
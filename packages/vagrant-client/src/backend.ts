@@ -0,0 +1,301 @@
+/**
+ * VagrantBackend - Execution layer behind VagrantClient
+ *
+ * VagrantClient decides *which* machine an operation targets (a VM in our
+ * managed directory, a VM known to `vagrant global-status`, or a plain
+ * VirtualBox VM) and delegates the actual work to a backend. The default
+ * backend shells out to `vagrant` and `VBoxManage`; the simulated backend
+ * keeps everything in memory so the full tool surface can run without a
+ * hypervisor.
+ */
+
+import { VMStatus, VMCredentials } from './types.js';
+
+/**
+ * Reference to the machine a backend call operates on
+ */
+export type MachineRef =
+    /**
+     * VM living in the client's vmsDir, driven through its Vagrantfile.
+     * `machine` selects a `config.vm.define` block of a multi-machine project.
+     */
+    | { kind: 'managed'; name: string; directory: string; machine?: string }
+    /** VM discovered through `vagrant global-status` */
+    | { kind: 'global'; name: string; id: string; directory: string }
+    /** VirtualBox VM without a Vagrant project */
+    | { kind: 'native'; name: string };
+
+/**
+ * Name of the machine as registered with VirtualBox. Machines of a
+ * multi-machine environment are addressed as `env/machine` but registered
+ * as `env-machine`, since VirtualBox uses the name for its folder.
+ */
+export function virtualBoxName(ref: MachineRef): string {
+    return ref.kind === 'managed' && ref.machine ? ref.name.replace('/', '-') : ref.name;
+}
+
+/**
+ * A piece of command output, delivered as soon as the guest produces it
+ */
+export interface OutputChunk {
+    stream: 'stdout' | 'stderr';
+    data: string;
+}
+
+/**
+ * Options for executing a command inside a VM
+ */
+export interface ExecOptions extends VMCredentials {
+    /** Timeout in milliseconds */
+    timeout?: number;
+    /** Receives stdout/stderr incrementally while the command runs */
+    onOutput?: (chunk: OutputChunk) => void;
+    /** Ends the command when aborted, e.g. a long-running watch */
+    signal?: AbortSignal;
+}
+
+/**
+ * Options for `vagrant provision`
+ */
+export interface ProvisionOptions {
+    /** Only run these provisioners (names or types), as with `--provision-with` */
+    provisionWith?: string[];
+    /** Timeout in milliseconds */
+    timeout?: number;
+    /** Receives output incrementally while provisioners run */
+    onOutput?: (chunk: OutputChunk) => void;
+}
+
+/**
+ * Result of a command executed inside a VM
+ */
+export interface ExecResult {
+    stdout: string;
+    stderr: string;
+    exitCode: number;
+    timedOut?: boolean;
+}
+
+/**
+ * VM entry reported by `vagrant global-status`
+ */
+export interface GlobalVagrantVM {
+    id: string;
+    name: string;
+    state: VMStatus;
+    directory: string;
+}
+
+/**
+ * Hardware settings that can be changed through `VBoxManage modifyvm`
+ */
+export interface ModifyVMSettings {
+    cpus?: number;
+    memory?: number;
+}
+
+/**
+ * A VirtualBox NAT port-forwarding rule (`VBoxManage ... natpf1`)
+ */
+export interface PortForwardRule {
+    /** Rule name; Vagrant uses the forwarded port `id`, e.g. 'tcp3000' or 'ssh' */
+    name: string;
+    protocol: 'tcp' | 'udp';
+    /** Host address to bind; empty for all interfaces */
+    hostIp?: string;
+    hostPort: number;
+    guestIp?: string;
+    guestPort: number;
+}
+
+/**
+ * A hard disk attached to a VM's storage controller
+ */
+export interface VMDisk {
+    /** Storage controller name, e.g. 'SATA Controller' */
+    controller: string;
+    port: number;
+    device: number;
+    /** Disk image on the host */
+    path: string;
+    /** Image format, e.g. 'VDI' or 'VMDK' */
+    format?: string;
+    /** Capacity in MB */
+    sizeMB?: number;
+}
+
+/**
+ * Options for attaching a disk image
+ */
+export interface AttachDiskOptions {
+    /** Disk image; created if it does not exist */
+    path: string;
+    /** Capacity of a new image in MB */
+    sizeMB?: number;
+    /** Controller to attach to (default: the primary disk's) */
+    controller?: string;
+    /** Port on the controller (default: first free port) */
+    port?: number;
+}
+
+/**
+ * Options for `VBoxManage clonevm`
+ */
+export interface CloneOptions {
+    /** Clone the state of this snapshot instead of the current state */
+    snapshot?: string;
+    /** Create a linked clone sharing the snapshot's disks (requires snapshot) */
+    linked?: boolean;
+}
+
+/**
+ * A box version in the local Vagrant box cache
+ */
+export interface VagrantBox {
+    name: string;
+    provider: string;
+    version: string;
+    /** Bytes this version occupies on disk */
+    sizeBytes: number;
+}
+
+/**
+ * Catalog version check of a cached box (`vagrant box outdated`)
+ */
+export interface BoxUpdateStatus {
+    name: string;
+    provider: string;
+    currentVersion?: string;
+    /** Newest version in the catalog; undefined for boxes added from a file */
+    latestVersion?: string;
+    outdated: boolean;
+}
+
+/**
+ * Options for `vagrant box add`
+ */
+export interface AddBoxOptions {
+    /** Box name; required by Vagrant when adding a .box file or URL */
+    name?: string;
+    /** Catalog version constraint (e.g. '>= 1.0') */
+    version?: string;
+    provider?: string;
+    /** Replace an existing box with the same name and version */
+    force?: boolean;
+    /** Timeout in milliseconds */
+    timeout?: number;
+    /** Receives download progress while the box is added */
+    onOutput?: (chunk: OutputChunk) => void;
+}
+
+/**
+ * Options for `vagrant box remove`
+ */
+export interface RemoveBoxOptions {
+    version?: string;
+    provider?: string;
+    /** Remove every cached version */
+    allVersions?: boolean;
+    /** Remove even if machines still use the box */
+    force?: boolean;
+}
+
+/**
+ * Contract every execution backend implements
+ */
+export interface VagrantBackend {
+    /** Short identifier for logs and diagnostics (e.g. 'vagrant-cli', 'simulated') */
+    readonly kind: string;
+
+    // === Discovery ===
+    /** Current state of a machine; 'not_created' if it does not exist */
+    getStatus(ref: MachineRef): Promise<VMStatus>;
+    /** Names of all VMs registered with the hypervisor */
+    listNativeVMs(): Promise<string[]>;
+    /** VMs reported by `vagrant global-status` */
+    listGlobalVMs(): Promise<GlobalVagrantVM[]>;
+
+    // === Lifecycle ===
+    /** Creates (if needed) and boots the machine */
+    up(ref: MachineRef): Promise<void>;
+    /** Shuts the machine down through the guest OS, or powers it off if forced */
+    halt(ref: MachineRef, options?: { force?: boolean }): Promise<void>;
+    /** Restarts the machine, re-reading its configuration; force powers it off instead of shutting down */
+    reload(ref: MachineRef, options?: { force?: boolean }): Promise<void>;
+    /** Saves the machine state to disk and stops it */
+    suspend(ref: MachineRef): Promise<void>;
+    /** Restores a suspended machine */
+    resume(ref: MachineRef): Promise<void>;
+    /** Drops a suspended machine's saved state, leaving it powered off */
+    discardState(ref: MachineRef): Promise<void>;
+    /** Destroys the machine and its disks */
+    destroy(ref: MachineRef): Promise<void>;
+
+    // === Guest Access ===
+    /** Runs a shell command in the guest. Never throws for non-zero exit codes. */
+    exec(ref: MachineRef, command: string, options?: ExecOptions): Promise<ExecResult>;
+    /** Copies a host file or directory into the guest */
+    upload(ref: MachineRef, source: string, destination: string, credentials?: VMCredentials): Promise<void>;
+    /** Copies a single guest file to the host byte for byte, overwriting the destination */
+    download(ref: MachineRef, source: string, destination: string, credentials?: VMCredentials): Promise<void>;
+    /** Runs the Vagrant rsync synced folders in the given direction */
+    rsync(ref: MachineRef, direction: 'to_vm' | 'from_vm'): Promise<void>;
+    /** Types a string on the VM keyboard */
+    keyboardPutString(ref: MachineRef, text: string): Promise<void>;
+    /** Sends raw keyboard scancodes (hex strings) */
+    keyboardPutScancodes(ref: MachineRef, scancodes: string[]): Promise<void>;
+    /**
+     * Runs the Vagrantfile's provisioners. Output uses Vagrant's
+     * `==> machine: Running provisioner: name (type)...` step markers.
+     * Never throws for a failing provisioner; check the exit code.
+     */
+    provision(ref: MachineRef, options?: ProvisionOptions): Promise<ExecResult>;
+
+    // === Snapshots ===
+    snapshotSave(ref: MachineRef, snapshotName: string): Promise<void>;
+    snapshotRestore(ref: MachineRef, snapshotName: string): Promise<void>;
+    snapshotList(ref: MachineRef): Promise<string[]>;
+    snapshotDelete(ref: MachineRef, snapshotName: string): Promise<void>;
+
+    // === Hardware & Export ===
+    /** Writes a PNG screenshot of the VM display to hostPath */
+    screenshot(ref: MachineRef, hostPath: string): Promise<void>;
+    /** Applies hardware changes (VM must be powered off) */
+    modifyVM(ref: MachineRef, settings: ModifyVMSettings): Promise<void>;
+    /** Exports the machine as a .box file */
+    packageBox(ref: MachineRef, outputPath: string): Promise<void>;
+    /** Clones the machine into a new registered VM and returns the clone's UUID */
+    cloneVM(ref: MachineRef, cloneName: string, options?: CloneOptions): Promise<string>;
+
+    // === Disks ===
+    /** Hard disks attached to the machine, primary disk first */
+    listDisks(ref: MachineRef): Promise<VMDisk[]>;
+    /**
+     * Grows a disk image (VM must be powered off). VMDK images cannot be
+     * resized and are converted to VDI first.
+     * @returns Path of the image attached afterwards
+     */
+    resizeDisk(ref: MachineRef, disk: VMDisk, sizeMB: number): Promise<string>;
+    /** Attaches a disk image, creating it first if needed (VM must be powered off) */
+    attachDisk(ref: MachineRef, options: AttachDiskOptions): Promise<VMDisk>;
+    /** Detaches a disk, optionally deleting its image (VM must be powered off) */
+    detachDisk(ref: MachineRef, disk: VMDisk, options?: { deleteImage?: boolean }): Promise<void>;
+
+    // === Networking ===
+    /** NAT port-forwarding rules of the first adapter */
+    listPortForwards(ref: MachineRef): Promise<PortForwardRule[]>;
+    /** Adds a NAT rule, live if the VM is running */
+    addPortForward(ref: MachineRef, rule: PortForwardRule): Promise<void>;
+    /** Deletes a NAT rule by name, live if the VM is running */
+    removePortForward(ref: MachineRef, ruleName: string): Promise<void>;
+
+    // === Boxes ===
+    /** Every box version in the local cache, with its disk usage */
+    listBoxes(): Promise<VagrantBox[]>;
+    /** Adds a box from a catalog name, URL or local .box file */
+    addBox(source: string, options?: AddBoxOptions): Promise<void>;
+    /** Removes cached versions of a box */
+    removeBox(name: string, options?: RemoveBoxOptions): Promise<void>;
+    /** Checks every cached box against its catalog */
+    outdatedBoxes(): Promise<BoxUpdateStatus[]>;
+}
@@ -0,0 +1,886 @@
+/**
+ * VagrantCliBackend - Default execution backend
+ *
+ * Drives real machines by shelling out to the `vagrant` CLI for Vagrant
+ * projects and to `VBoxManage` for plain VirtualBox VMs.
+ */
+
+import { execa, ExecaChildProcess } from 'execa';
+import { logger } from '@virtualbox-mcp/shared-utils';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import { VMStatus, VMCredentials } from './types.js';
+import { SshConnectionPool, SshPoolOptions, SshEndpoint, parseSshConfig } from './ssh-pool.js';
+import {
+    VagrantBackend,
+    MachineRef,
+    ExecOptions,
+    ExecResult,
+    ProvisionOptions,
+    OutputChunk,
+    GlobalVagrantVM,
+    ModifyVMSettings,
+    PortForwardRule,
+    CloneOptions,
+    VMDisk,
+    AttachDiskOptions,
+    VagrantBox,
+    BoxUpdateStatus,
+    AddBoxOptions,
+    RemoveBoxOptions,
+    virtualBoxName
+} from './backend.js';
+
+/**
+ * Default timeout for commands run through `vagrant ssh`
+ */
+const DEFAULT_SSH_TIMEOUT_MS = 300000; // 5 mins
+
+/**
+ * Default timeout for commands run through guest control
+ */
+const DEFAULT_GUESTCONTROL_TIMEOUT_MS = 60000;
+
+/**
+ * Default timeout for `vagrant provision`
+ */
+const DEFAULT_PROVISION_TIMEOUT_MS = 1800000; // 30 mins
+
+/**
+ * Default timeout for `vagrant box add`, which may download several GB
+ */
+const DEFAULT_BOX_ADD_TIMEOUT_MS = 3600000; // 60 mins
+
+/**
+ * Total size of the files below a directory
+ */
+function directorySize(dir: string): number {
+    let total = 0;
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+            total += directorySize(fullPath);
+        } else if (entry.isFile()) {
+            total += fs.statSync(fullPath).size;
+        }
+    }
+    return total;
+}
+
+/**
+ * Forwards a subprocess's output to an exec listener as it arrives
+ */
+function streamOutput(subprocess: ExecaChildProcess, onOutput?: (chunk: OutputChunk) => void): void {
+    if (!onOutput) return;
+    subprocess.stdout?.on('data', (data: Buffer) => onOutput({ stream: 'stdout', data: data.toString('utf8') }));
+    subprocess.stderr?.on('data', (data: Buffer) => onOutput({ stream: 'stderr', data: data.toString('utf8') }));
+}
+
+/**
+ * Options for the CLI backend
+ */
+export interface VagrantCliBackendOptions {
+    /** Run guest commands over pooled SSH connections (default: true) */
+    sshPool?: boolean;
+    /** Tuning for the SSH connection pool */
+    sshPoolOptions?: SshPoolOptions;
+}
+
+/**
+ * Backend that executes operations through the vagrant and VBoxManage CLIs
+ */
+export class VagrantCliBackend implements VagrantBackend {
+    readonly kind = 'vagrant-cli';
+
+    /** Resolved VBoxManage executable (cached after first lookup) */
+    private vboxPath: string | null = null;
+
+    /** Persistent SSH connections; `vagrant ssh` is used when unavailable */
+    private sshPool: SshConnectionPool | null;
+
+    constructor(options: VagrantCliBackendOptions = {}) {
+        this.sshPool = options.sshPool === false ? null : new SshConnectionPool(options.sshPoolOptions);
+    }
+
+    /**
+     * Closes pooled SSH connections
+     */
+    dispose(): void {
+        this.sshPool?.closeAll();
+    }
+
+    private async getVBoxManage(): Promise<string> {
+        if (this.vboxPath) return this.vboxPath;
+
+        // Try common paths on Windows
+        const paths = [
+            'VBoxManage',
+            'C:\\Program Files\\Oracle\\VirtualBox\\VBoxManage.exe',
+            'C:\\Program Files (x86)\\Oracle\\VirtualBox\\VBoxManage.exe'
+        ];
+
+        for (const p of paths) {
+            try {
+                await execa(p, ['--version']);
+                this.vboxPath = p;
+                return p;
+            } catch {
+                continue;
+            }
+        }
+
+        throw new Error('VBoxManage not found. Please ensure VirtualBox is installed and in your PATH.');
+    }
+
+    /**
+     * Runs a vagrant subcommand in the machine's project directory
+     */
+    private vagrant(ref: MachineRef, args: string[], options: { timeout?: number; signal?: AbortSignal } = {}): ExecaChildProcess {
+        if (ref.kind === 'native') {
+            throw new Error(`VM ${ref.name} is not managed by Vagrant`);
+        }
+        return execa('vagrant', args, { cwd: ref.directory, ...options });
+    }
+
+    /**
+     * Positional machine argument for vagrant subcommands: global VMs are
+     * addressed by id, machines of a multi-machine project by their define
+     * name, single-machine projects by their directory alone.
+     */
+    private target(ref: MachineRef): string[] {
+        if (ref.kind === 'global') return [ref.id];
+        if (ref.kind === 'managed' && ref.machine) return [ref.machine];
+        return [];
+    }
+
+    /**
+     * Key identifying a Vagrant machine in the SSH pool
+     */
+    private poolKey(ref: MachineRef): string {
+        if (ref.kind === 'global') return ref.id;
+        if (ref.kind === 'managed') return ref.machine ? `${ref.directory}#${ref.machine}` : ref.directory;
+        return ref.name;
+    }
+
+    /**
+     * Drops pooled SSH state after lifecycle changes
+     */
+    private resetSsh(ref: MachineRef): void {
+        if (ref.kind !== 'native') {
+            this.sshPool?.invalidate(this.poolKey(ref));
+        }
+    }
+
+    private async readSshConfig(ref: MachineRef): Promise<SshEndpoint> {
+        const { stdout } = await this.vagrant(ref, ['ssh-config', ...this.target(ref)]);
+        return parseSshConfig(stdout);
+    }
+
+    // ========================================
+    // DISCOVERY
+    // ========================================
+
+    async getStatus(ref: MachineRef): Promise<VMStatus> {
+        // If it's a Vagrant VM managed by us
+        if (ref.kind === 'managed') {
+            try {
+                const { stdout } = await this.vagrant(ref, ['status', ...this.target(ref), '--machine-readable']);
+                const lines = stdout.split('\n');
+                for (const line of lines) {
+                    const parts = line.split(',');
+                    if (parts.length >= 4 && parts[2] === 'state') {
+                        const state = parts[3].trim();
+                        if (state === 'running') return 'running';
+                        if (state === 'poweroff') return 'poweroff';
+                        if (state === 'aborted') return 'aborted';
+                        if (state === 'saved') return 'saved';
+                        if (state === 'not_created') return 'not_created';
+                    }
+                }
+            } catch (error) {
+                logger.error(`Vagrant status failed for ${ref.name}, falling back to VBoxManage`, error);
+            }
+        }
+
+        // Fallback or native VM check via VBoxManage
+        try {
+            const vbox = await this.getVBoxManage();
+            const { stdout } = await execa(vbox, ['showvminfo', virtualBoxName(ref), '--machinereadable']);
+            if (stdout.includes('VMState="running"')) return 'running';
+            if (stdout.includes('VMState="poweroff"')) return 'poweroff';
+            if (stdout.includes('VMState="aborted"')) return 'aborted';
+            if (stdout.includes('VMState="saved"')) return 'saved';
+            return 'unknown';
+        } catch (error) {
+            return 'not_created';
+        }
+    }
+
+    async listNativeVMs(): Promise<string[]> {
+        const vbox = await this.getVBoxManage();
+        const { stdout } = await execa(vbox, ['list', 'vms']);
+        const names: string[] = [];
+        for (const line of stdout.split('\n')) {
+            const match = line.match(/"([^"]+)"/);
+            if (match) names.push(match[1]);
+        }
+        return names;
+    }
+
+    /**
+     * Parses 'vagrant global-status' to find all running Vagrant instances
+     */
+    async listGlobalVMs(): Promise<GlobalVagrantVM[]> {
+        try {
+            const { stdout } = await execa('vagrant', ['global-status', '--prune']);
+            const lines = stdout.split('\n');
+            const vms: GlobalVagrantVM[] = [];
+
+            // Output format: id name provider state directory
+            // Skip header/footer
+            const dataLines = lines.filter(l => l.match(/^[a-f0-9]{7}\s+/));
+
+            for (const line of dataLines) {
+                const parts = line.trim().split(/\s+/);
+                if (parts.length >= 5) {
+                    const id = parts[0];
+                    const name = parts[1];
+                    let stateStr = parts[3];
+                    const directory = parts.slice(4).join(' ');
+
+                    // Map Vagrant state to VMStatus
+                    let state: VMStatus = 'unknown';
+                    if (stateStr === 'running') state = 'running';
+                    else if (stateStr === 'poweroff') state = 'poweroff';
+                    else if (stateStr === 'saved') state = 'saved';
+                    else if (stateStr === 'aborted') state = 'aborted';
+
+                    vms.push({ id, name, state, directory });
+                }
+            }
+            return vms;
+        } catch (error) {
+            return [];
+        }
+    }
+
+    // ========================================
+    // LIFECYCLE
+    // ========================================
+
+    async up(ref: MachineRef): Promise<void> {
+        if (ref.kind === 'native') {
+            const vbox = await this.getVBoxManage();
+            await execa(vbox, ['startvm', ref.name, '--type', 'headless']);
+            return;
+        }
+        this.resetSsh(ref);
+        await this.vagrant(ref, ['up', ...this.target(ref)]);
+    }
+
+    async halt(ref: MachineRef, options: { force?: boolean } = {}): Promise<void> {
+        if (ref.kind === 'native') {
+            // ACPI shutdown returns immediately; callers wait for 'poweroff'
+            const vbox = await this.getVBoxManage();
+            await execa(vbox, ['controlvm', ref.name, options.force ? 'poweroff' : 'acpipowerbutton']);
+            return;
+        }
+        this.resetSsh(ref);
+        await this.vagrant(ref, ['halt', ...this.target(ref), ...(options.force ? ['--force'] : [])]);
+    }
+
+    async reload(ref: MachineRef, options: { force?: boolean } = {}): Promise<void> {
+        if (ref.kind === 'native' || options.force) {
+            // `vagrant reload` always attempts a graceful shutdown first
+            await this.halt(ref, { force: true });
+            await this.up(ref);
+            return;
+        }
+        this.resetSsh(ref);
+        await this.vagrant(ref, ['reload', ...this.target(ref)]);
+    }
+
+    async suspend(ref: MachineRef): Promise<void> {
+        if (ref.kind === 'native') {
+            const vbox = await this.getVBoxManage();
+            await execa(vbox, ['controlvm', ref.name, 'savestate']);
+            return;
+        }
+        this.resetSsh(ref);
+        await this.vagrant(ref, ['suspend', ...this.target(ref)]);
+    }
+
+    async resume(ref: MachineRef): Promise<void> {
+        if (ref.kind === 'native') {
+            // Starting a saved VM restores its state
+            await this.up(ref);
+            return;
+        }
+        this.resetSsh(ref);
+        await this.vagrant(ref, ['resume', ...this.target(ref)]);
+    }
+
+    async discardState(ref: MachineRef): Promise<void> {
+        const vbox = await this.getVBoxManage();
+        await execa(vbox, ['discardstate', virtualBoxName(ref)]);
+    }
+
+    async destroy(ref: MachineRef): Promise<void> {
+        this.resetSsh(ref);
+        await this.vagrant(ref, ['destroy', '-f', ...this.target(ref)]);
+    }
+
+    // ========================================
+    // GUEST ACCESS
+    // ========================================
+
+    async exec(ref: MachineRef, command: string, options: ExecOptions = {}): Promise<ExecResult> {
+        if (ref.kind === 'native') {
+            return this.execGuestControl(ref, command, options);
+        }
+
+        const timeout = options.timeout !== undefined ? options.timeout : DEFAULT_SSH_TIMEOUT_MS;
+
+        if (this.sshPool) {
+            try {
+                return await this.sshPool.exec(this.poolKey(ref), () => this.readSshConfig(ref), command, {
+                    timeout,
+                    onOutput: options.onOutput,
+                    signal: options.signal
+                });
+            } catch (error: any) {
+                logger.debug(`Pooled SSH unavailable for ${ref.name}, falling back to vagrant ssh: ${error.message}`);
+            }
+        }
+
+        try {
+            // Use vagrant ssh -c to execute command
+            const subprocess = this.vagrant(ref, ['ssh', ...this.target(ref), '-c', command], { timeout, signal: options.signal });
+            streamOutput(subprocess, options.onOutput);
+            const result = await subprocess;
+            return {
+                stdout: result.stdout,
+                stderr: result.stderr,
+                exitCode: result.exitCode,
+                timedOut: false
+            };
+        } catch (error: any) {
+            if (error.timedOut) {
+                return {
+                    stdout: error.stdout || '',
+                    stderr: error.stderr || '',
+                    exitCode: 124, // Standard exit code for timeout
+                    timedOut: true
+                };
+            }
+            // execa throws on non-zero exit code
+            return {
+                stdout: error.stdout || '',
+                stderr: error.stderr || '',
+                exitCode: error.exitCode || 1,
+                timedOut: false
+            };
+        }
+    }
+
+    private async execGuestControl(ref: MachineRef, command: string, options: ExecOptions): Promise<ExecResult> {
+        const vbox = await this.getVBoxManage();
+        const timeout = options.timeout || DEFAULT_GUESTCONTROL_TIMEOUT_MS;
+        const username = options.username || 'vagrant';
+        const password = options.password || 'vagrant';
+
+        // Fast check: Ensure VM is running
+        const status = await this.getStatus(ref);
+        if (status !== 'running') {
+            throw new Error(`Cannot execute command: VM '${ref.name}' is in state '${status}' (must be 'running')`);
+        }
+
+        try {
+            // VBoxManage guestcontrol <vmname> run --exe "/bin/sh" --username <user> --password <pass> -- -c "<command>"
+            const subprocess = execa(vbox, [
+                'guestcontrol', ref.name, 'run',
+                '--exe', '/bin/sh',
+                '--username', username,
+                '--password', password,
+                '--', '-c', command
+            ], { timeout, signal: options.signal });
+            streamOutput(subprocess, options.onOutput);
+            const result = await subprocess;
+
+            return {
+                stdout: result.stdout,
+                stderr: result.stderr,
+                exitCode: result.exitCode,
+                timedOut: false
+            };
+        } catch (error: any) {
+            // Enhance error message for authentication failures
+            if (error.stderr && error.stderr.includes('VBOX_E_IPRT_ERROR')) {
+                error.message += ` (Hint: Check if Guest Additions are running and '${username}' user credentials are valid)`;
+            }
+
+            return {
+                stdout: error.stdout || '',
+                stderr: error.stderr || '',
+                exitCode: error.exitCode || 1,
+                timedOut: !!error.timedOut
+            };
+        }
+    }
+
+    async upload(ref: MachineRef, source: string, destination: string, credentials: VMCredentials = {}): Promise<void> {
+        if (ref.kind !== 'native') {
+            // vagrant upload source [destination] [name|id]
+            await this.vagrant(ref, ['upload', source, destination, ...this.target(ref)]);
+            return;
+        }
+
+        const vbox = await this.getVBoxManage();
+        const username = credentials.username || 'vagrant';
+        const password = credentials.password || 'vagrant';
+
+        // VBoxManage guestcontrol <vmname> copyto <src> <dest> --username <user> --password <pass>
+        await execa(vbox, [
+            'guestcontrol', ref.name, 'copyto',
+            source, destination,
+            '--username', username,
+            '--password', password,
+            '--target-directory' // Ensure destination is treated as directory if it ends in /
+        ]);
+    }
+
+    async download(ref: MachineRef, source: string, destination: string, credentials: VMCredentials = {}): Promise<void> {
+        if (ref.kind === 'native') {
+            const vbox = await this.getVBoxManage();
+            // VBoxManage guestcontrol <vmname> copyfrom --username <user> --password <pass> <src> <dest>
+            await execa(vbox, [
+                'guestcontrol', ref.name, 'copyfrom',
+                '--username', credentials.username || 'vagrant',
+                '--password', credentials.password || 'vagrant',
+                source, destination
+            ]);
+            return;
+        }
+
+        if (this.sshPool) {
+            try {
+                await this.sshPool.download(this.poolKey(ref), () => this.readSshConfig(ref), source, destination);
+                return;
+            } catch (error: any) {
+                logger.debug(`SFTP unavailable for ${ref.name}, falling back to vagrant ssh: ${error.message}`);
+            }
+        }
+
+        // vagrant ssh output is text; base64 keeps binary content intact
+        const result = await this.exec(ref, `base64 < '${source.replace(/'/g, "'\\''")}'`, { timeout: 0 });
+        if (result.exitCode !== 0) {
+            throw new Error(result.stderr || `Failed to read ${source}`);
+        }
+        await fs.promises.writeFile(destination, Buffer.from(result.stdout, 'base64'));
+    }
+
+    async rsync(ref: MachineRef, direction: 'to_vm' | 'from_vm'): Promise<void> {
+        // rsync-back requires the vagrant-rsync-back plugin
+        await this.vagrant(ref, [direction === 'to_vm' ? 'rsync' : 'rsync-back', ...this.target(ref)]);
+    }
+
+    async keyboardPutString(ref: MachineRef, text: string): Promise<void> {
+        const vbox = await this.getVBoxManage();
+        await execa(vbox, ['controlvm', virtualBoxName(ref), 'keyboardputstring', text]);
+    }
+
+    async keyboardPutScancodes(ref: MachineRef, scancodes: string[]): Promise<void> {
+        const vbox = await this.getVBoxManage();
+        await execa(vbox, ['controlvm', virtualBoxName(ref), 'keyboardputscancode', ...scancodes]);
+    }
+
+    async provision(ref: MachineRef, options: ProvisionOptions = {}): Promise<ExecResult> {
+        const args = ['provision', ...this.target(ref)];
+        if (options.provisionWith && options.provisionWith.length > 0) {
+            args.push('--provision-with', options.provisionWith.join(','));
+        }
+
+        try {
+            const subprocess = this.vagrant(ref, args, { timeout: options.timeout ?? DEFAULT_PROVISION_TIMEOUT_MS });
+            streamOutput(subprocess, options.onOutput);
+            const result = await subprocess;
+            return { stdout: result.stdout, stderr: result.stderr, exitCode: result.exitCode, timedOut: false };
+        } catch (error: any) {
+            return {
+                stdout: error.stdout || '',
+                stderr: error.stderr || error.message || '',
+                exitCode: error.timedOut ? 124 : (error.exitCode || 1),
+                timedOut: !!error.timedOut
+            };
+        }
+    }
+
+    // ========================================
+    // SNAPSHOTS
+    // ========================================
+
+    async snapshotSave(ref: MachineRef, snapshotName: string): Promise<void> {
+        if (ref.kind === 'native') {
+            const vbox = await this.getVBoxManage();
+            await execa(vbox, ['snapshot', ref.name, 'take', snapshotName]);
+            return;
+        }
+        await this.vagrant(ref, ['snapshot', 'save', ...this.target(ref), snapshotName]);
+    }
+
+    async snapshotRestore(ref: MachineRef, snapshotName: string): Promise<void> {
+        if (ref.kind === 'native') {
+            const vbox = await this.getVBoxManage();
+            await execa(vbox, ['snapshot', ref.name, 'restore', snapshotName]);
+            return;
+        }
+        this.resetSsh(ref);
+        await this.vagrant(ref, ['snapshot', 'restore', ...this.target(ref), snapshotName]);
+    }
+
+    async snapshotList(ref: MachineRef): Promise<string[]> {
+        if (ref.kind === 'native') {
+            const vbox = await this.getVBoxManage();
+            try {
+                const { stdout } = await execa(vbox, ['snapshot', ref.name, 'list', '--machinereadable']);
+                return Array.from(stdout.matchAll(/^SnapshotName[^=]*="([^"]*)"/gm), m => m[1]);
+            } catch (error: any) {
+                // VBoxManage exits non-zero when the VM has no snapshots
+                if (String(error.stdout || '').includes('does not have any snapshots')) return [];
+                throw error;
+            }
+        }
+
+        const result = await this.vagrant(ref, ['snapshot', 'list', ...this.target(ref)]);
+
+        // Parse the output - each line is a snapshot name
+        // Handle "No snapshots have been taken yet!" message
+        const output = result.stdout.trim();
+        if (output.includes('No snapshots') || output.length === 0) {
+            return [];
+        }
+
+        return output.split('\n')
+            .map(s => s.trim())
+            .filter(s => s.length > 0 && !s.startsWith('==>') && !s.startsWith('Listing contents'));
+    }
+
+    async snapshotDelete(ref: MachineRef, snapshotName: string): Promise<void> {
+        if (ref.kind === 'native') {
+            const vbox = await this.getVBoxManage();
+            await execa(vbox, ['snapshot', ref.name, 'delete', snapshotName]);
+            return;
+        }
+        await this.vagrant(ref, ['snapshot', 'delete', ...this.target(ref), snapshotName]);
+    }
+
+    // ========================================
+    // HARDWARE & EXPORT
+    // ========================================
+
+    async screenshot(ref: MachineRef, hostPath: string): Promise<void> {
+        const vbox = await this.getVBoxManage();
+        // VBoxManage controlvm <vm> screenshotpng <path>
+        await execa(vbox, ['controlvm', virtualBoxName(ref), 'screenshotpng', hostPath]);
+    }
+
+    async modifyVM(ref: MachineRef, settings: ModifyVMSettings): Promise<void> {
+        const vbox = await this.getVBoxManage();
+        if (settings.cpus !== undefined) {
+            await execa(vbox, ['modifyvm', virtualBoxName(ref), '--cpus', String(settings.cpus)]);
+        }
+        if (settings.memory !== undefined) {
+            await execa(vbox, ['modifyvm', virtualBoxName(ref), '--memory', String(settings.memory)]);
+        }
+    }
+
+    async packageBox(ref: MachineRef, outputPath: string): Promise<void> {
+        const options = { timeout: 600000 }; // 10 minute timeout for large VMs
+        if (ref.kind === 'native') {
+            // Package a plain VirtualBox VM as a base box
+            await execa('vagrant', ['package', '--base', ref.name, '--output', outputPath], options);
+            return;
+        }
+        await this.vagrant(ref, ['package', ...this.target(ref), '--output', outputPath], options);
+    }
+
+    async cloneVM(ref: MachineRef, cloneName: string, options: CloneOptions = {}): Promise<string> {
+        const vbox = await this.getVBoxManage();
+        const args = ['clonevm', virtualBoxName(ref), '--name', cloneName, '--register'];
+        if (options.snapshot) args.push('--snapshot', options.snapshot);
+        if (options.linked) args.push('--options', 'link');
+        await execa(vbox, args, { timeout: 1800000 }); // full clones copy every disk
+
+        const { stdout } = await execa(vbox, ['showvminfo', cloneName, '--machinereadable']);
+        const match = stdout.match(/^UUID="([^"]+)"/m);
+        if (!match) {
+            throw new Error(`Could not read the UUID of clone ${cloneName}`);
+        }
+        return match[1];
+    }
+
+    // ========================================
+    // DISKS
+    // ========================================
+
+    async listDisks(ref: MachineRef): Promise<VMDisk[]> {
+        const vbox = await this.getVBoxManage();
+        const { stdout } = await execa(vbox, ['showvminfo', virtualBoxName(ref), '--machinereadable']);
+
+        // "SATA Controller-0-0"="/path/to/disk.vmdk"; DVD drives hold .iso images or "emptydrive"
+        const disks: VMDisk[] = [];
+        for (const match of stdout.matchAll(/^"(.+)-(\d+)-(\d+)"="([^"]*)"$/gm)) {
+            const [, controller, port, device, imagePath] = match;
+            if (/-(ImageUUID|IsEjected)$/.test(controller)) continue;
+            if (imagePath === 'none' || imagePath === 'emptydrive' || /\.iso$/i.test(imagePath)) continue;
+
+            const disk: VMDisk = { controller, port: parseInt(port, 10), device: parseInt(device, 10), path: imagePath };
+            try {
+                const { stdout: info } = await execa(vbox, ['showmediuminfo', 'disk', imagePath]);
+                disk.format = info.match(/^Storage format:\s+(\S+)/m)?.[1] || info.match(/^Format:\s+(\S+)/m)?.[1];
+                const capacity = info.match(/^Capacity:\s+(\d+) MBytes/m);
+                if (capacity) disk.sizeMB = parseInt(capacity[1], 10);
+            } catch (error) {
+                logger.debug(`Could not read medium info for ${imagePath}`);
+            }
+            disks.push(disk);
+        }
+        return disks;
+    }
+
+    async resizeDisk(ref: MachineRef, disk: VMDisk, sizeMB: number): Promise<string> {
+        const vbox = await this.getVBoxManage();
+        let imagePath = disk.path;
+
+        if ((disk.format || path.extname(disk.path).slice(1)).toUpperCase() === 'VMDK') {
+            imagePath = disk.path.replace(/\.vmdk$/i, '') + '.vdi';
+            logger.info(`Converting ${disk.path} to VDI so it can be resized...`);
+            await execa(vbox, ['clonemedium', 'disk', disk.path, imagePath, '--format', 'VDI'], { timeout: 1800000 });
+            await execa(vbox, [
+                'storageattach', virtualBoxName(ref), '--storagectl', disk.controller,
+                '--port', String(disk.port), '--device', String(disk.device), '--type', 'hdd', '--medium', imagePath
+            ]);
+            try {
+                await execa(vbox, ['closemedium', 'disk', disk.path, '--delete']);
+            } catch (error) {
+                // Still referenced elsewhere (e.g. by a snapshot); keep the original
+                logger.warn(`Kept original disk image ${disk.path}`);
+            }
+        }
+
+        await execa(vbox, ['modifymedium', 'disk', imagePath, '--resize', String(sizeMB)], { timeout: 600000 });
+        return imagePath;
+    }
+
+    async attachDisk(ref: MachineRef, options: AttachDiskOptions): Promise<VMDisk> {
+        const vbox = await this.getVBoxManage();
+        const vmName = virtualBoxName(ref);
+        const { stdout } = await execa(vbox, ['showvminfo', vmName, '--machinereadable']);
+        const disks = await this.listDisks(ref);
+
+        // storagecontrollername0="SATA Controller" / storagecontrollerportcount0="1"
+        const controllers = Array.from(stdout.matchAll(/^storagecontrollername(\d+)="([^"]*)"/gm), m => ({
+            name: m[2],
+            portCount: parseInt(stdout.match(new RegExp(`^storagecontrollerportcount${m[1]}="(\\d+)"`, 'm'))?.[1] || '1', 10)
+        }));
+        const controllerName = options.controller || disks[0]?.controller || controllers[0]?.name;
+        const controller = controllers.find(c => c.name === controllerName);
+        if (!controller) {
+            throw new Error(`Storage controller '${controllerName}' not found on VM ${vmName}`);
+        }
+
+        // Any attachment (including DVD drives) occupies its port
+        const used = new Set(Array.from(stdout.matchAll(/^"(.+)-(\d+)-\d+"="([^"]*)"$/gm))
+            .filter(m => m[1] === controller.name && m[3] !== 'none')
+            .map(m => parseInt(m[2], 10)));
+        let port = options.port;
+        if (port === undefined) {
+            port = 0;
+            while (used.has(port)) port++;
+        }
+        if (port >= controller.portCount) {
+            await execa(vbox, ['storagectl', vmName, '--name', controller.name, '--portcount', String(port + 1)]);
+        }
+
+        if (!fs.existsSync(options.path)) {
+            if (!options.sizeMB) {
+                throw new Error(`Disk image ${options.path} does not exist; specify a size to create it`);
+            }
+            fs.mkdirSync(path.dirname(options.path), { recursive: true });
+            await execa(vbox, ['createmedium', 'disk', '--filename', options.path, '--size', String(options.sizeMB), '--format', 'VDI']);
+        }
+
+        await execa(vbox, [
+            'storageattach', vmName, '--storagectl', controller.name,
+            '--port', String(port), '--device', '0', '--type', 'hdd', '--medium', options.path
+        ]);
+        const attached = (await this.listDisks(ref)).find(d => d.controller === controller.name && d.port === port && d.device === 0);
+        return attached || { controller: controller.name, port, device: 0, path: options.path, sizeMB: options.sizeMB };
+    }
+
+    async detachDisk(ref: MachineRef, disk: VMDisk, options: { deleteImage?: boolean } = {}): Promise<void> {
+        const vbox = await this.getVBoxManage();
+        await execa(vbox, [
+            'storageattach', virtualBoxName(ref), '--storagectl', disk.controller,
+            '--port', String(disk.port), '--device', String(disk.device), '--medium', 'none'
+        ]);
+        if (options.deleteImage) {
+            await execa(vbox, ['closemedium', 'disk', disk.path, '--delete']);
+        }
+    }
+
+    // ========================================
+    // NETWORKING
+    // ========================================
+
+    async listPortForwards(ref: MachineRef): Promise<PortForwardRule[]> {
+        const vbox = await this.getVBoxManage();
+        const { stdout } = await execa(vbox, ['showvminfo', virtualBoxName(ref), '--machinereadable']);
+
+        // Forwarding(0)="ssh,tcp,127.0.0.1,2222,,22"
+        const rules: PortForwardRule[] = [];
+        for (const match of stdout.matchAll(/^Forwarding\(\d+\)="([^"]*)"/gm)) {
+            const [name, protocol, hostIp, hostPort, guestIp, guestPort] = match[1].split(',');
+            rules.push({
+                name,
+                protocol: protocol === 'udp' ? 'udp' : 'tcp',
+                hostIp: hostIp || undefined,
+                hostPort: parseInt(hostPort, 10),
+                guestIp: guestIp || undefined,
+                guestPort: parseInt(guestPort, 10)
+            });
+        }
+        return rules;
+    }
+
+    /**
+     * Runs a natpf1 change: `controlvm` while running, `modifyvm` otherwise
+     */
+    private async natpf(ref: MachineRef, args: string[]): Promise<void> {
+        const vbox = await this.getVBoxManage();
+        const vmName = virtualBoxName(ref);
+        const status = await this.getStatus(ref);
+        if (status === 'running') {
+            await execa(vbox, ['controlvm', vmName, 'natpf1', ...args]);
+        } else {
+            await execa(vbox, ['modifyvm', vmName, '--natpf1', ...args]);
+        }
+    }
+
+    async addPortForward(ref: MachineRef, rule: PortForwardRule): Promise<void> {
+        await this.natpf(ref, [
+            [rule.name, rule.protocol, rule.hostIp || '', rule.hostPort, rule.guestIp || '', rule.guestPort].join(',')
+        ]);
+    }
+
+    async removePortForward(ref: MachineRef, ruleName: string): Promise<void> {
+        await this.natpf(ref, ['delete', ruleName]);
+    }
+
+    // ========================================
+    // BOXES
+    // ========================================
+
+    async listBoxes(): Promise<VagrantBox[]> {
+        const { stdout } = await execa('vagrant', ['box', 'list', '--machine-readable']);
+
+        // 1700000000,,box-name,ubuntu/focal64 followed by box-provider, box-version (and box-architecture)
+        const entries: Array<{ name: string; provider: string; version: string; architecture?: string }> = [];
+        for (const line of stdout.split('\n')) {
+            const [, , type, ...rest] = line.trim().split(',');
+            const value = rest.join(',');
+            if (type === 'box-name') {
+                entries.push({ name: value, provider: '', version: '0' });
+            } else if (entries.length > 0) {
+                const current = entries[entries.length - 1];
+                if (type === 'box-provider') current.provider = value;
+                if (type === 'box-version') current.version = value;
+                if (type === 'box-architecture') current.architecture = value;
+            }
+        }
+
+        return entries.map(entry => ({
+            name: entry.name,
+            provider: entry.provider,
+            version: entry.version,
+            sizeBytes: this.boxSize(entry.name, entry.version, entry.provider, entry.architecture)
+        }));
+    }
+
+    /**
+     * Disk usage of a cached box version, read from `$VAGRANT_HOME/boxes`
+     */
+    private boxSize(name: string, version: string, provider: string, architecture?: string): number {
+        const vagrantHome = process.env.VAGRANT_HOME || path.join(os.homedir(), '.vagrant.d');
+        const versionDir = path.join(vagrantHome, 'boxes', name.replace(/\//g, '-VAGRANTSLASH-'), version);
+        // Vagrant 2.4+ nests architecture-specific boxes one level deeper
+        const candidates = [
+            path.join(versionDir, provider),
+            ...(architecture ? [path.join(versionDir, architecture, provider)] : [])
+        ];
+        for (const dir of candidates) {
+            try {
+                if (fs.statSync(dir).isDirectory()) return directorySize(dir);
+            } catch {
+                continue;
+            }
+        }
+        return 0;
+    }
+
+    async addBox(source: string, options: AddBoxOptions = {}): Promise<void> {
+        const args = ['box', 'add', source];
+        if (options.name) args.push('--name', options.name);
+        if (options.version) args.push('--box-version', options.version);
+        if (options.provider) args.push('--provider', options.provider);
+        if (options.force) args.push('--force');
+
+        const subprocess = execa('vagrant', args, { timeout: options.timeout ?? DEFAULT_BOX_ADD_TIMEOUT_MS });
+        streamOutput(subprocess, options.onOutput);
+        await subprocess;
+    }
+
+    async removeBox(name: string, options: RemoveBoxOptions = {}): Promise<void> {
+        const args = ['box', 'remove', name];
+        if (options.allVersions) {
+            args.push('--all');
+        } else if (options.version) {
+            args.push('--box-version', options.version);
+        }
+        if (options.provider) args.push('--provider', options.provider);
+        if (options.force) args.push('--force');
+        await execa('vagrant', args);
+    }
+
+    async outdatedBoxes(): Promise<BoxUpdateStatus[]> {
+        const { stdout } = await execa('vagrant', ['box', 'outdated', '--global'], { timeout: 120000 });
+
+        // * 'ubuntu/focal64' for 'virtualbox' is outdated! Current: 20220101.0.0. Latest: 20240821.0.1
+        // * 'ubuntu/jammy64' for 'virtualbox' (v20240101.0.0) is up to date
+        // * 'mybox' for 'virtualbox' wasn't added from a catalog, no version information
+        const statuses: BoxUpdateStatus[] = [];
+        for (const line of stdout.split('\n')) {
+            const match = line.match(/^\*\s+'([^']+)'(?:\s+for\s+'([^']+)')?(.*)$/);
+            if (!match) continue;
+            const [, name, provider = '', rest] = match;
+
+            const outdated = rest.match(/is outdated! Current: (\S+?)\.? Latest: (\S+?)\.?\s*$/);
+            if (outdated) {
+                statuses.push({ name, provider, currentVersion: outdated[1], latestVersion: outdated[2], outdated: true });
+                continue;
+            }
+            const current = rest.match(/\(v([^)]+)\) is up to date/);
+            statuses.push({
+                name,
+                provider,
+                currentVersion: current?.[1],
+                latestVersion: current?.[1],
+                outdated: false
+            });
+        }
+        return statuses;
+    }
+}
+
+export { VagrantCliBackend as default };
@@ -1,132 +1,305 @@
-import { execa } from 'execa';
-import { logger, closestMatch } from '@virtualbox-mcp/shared-utils';
-import { z } from 'zod';
+import { logger, closestMatch, IgnoreMatcher, shellQuote, portableStat } from '@virtualbox-mcp/shared-utils';
 import * as path from 'path';
 import * as fs from 'fs';
 import * as os from 'os';
+import * as crypto from 'crypto';
+import { VMStatus, VMCredentials, EnvironmentMachine, ProvisionStep, VMStateChange, DownloadResult, DownloadedFile } from './types.js';
+import {
+    VagrantBackend,
+    MachineRef,
+    ExecOptions,
+    ExecResult,
+    OutputChunk,
+    PortForwardRule,
+    VMDisk,
+    VagrantBox,
+    BoxUpdateStatus,
+    virtualBoxName
+} from './backend.js';
+import { VagrantCliBackend } from './cli-backend.js';
+import {
+    VagrantfileModel,
+    MachineSettings,
+    MachineDefinition,
+    Provisioner,
+    ForwardedPort,
+    createVagrantfileModel,
+    createMachineSettings,
+    readVagrantfile,
+    writeVagrantfile,
+    updateVagrantfile
+} from './vagrantfile.js';
+import { HostPortRegistry, PortAllocation, PortRange } from './port-registry.js';
+
+export * from './types.js';
+export {
+    VagrantBackend,
+    MachineRef,
+    ExecOptions,
+    ExecResult,
+    ProvisionOptions,
+    OutputChunk,
+    GlobalVagrantVM,
+    ModifyVMSettings,
+    PortForwardRule,
+    VMDisk,
+    AttachDiskOptions,
+    CloneOptions,
+    VagrantBox,
+    BoxUpdateStatus,
+    AddBoxOptions,
+    RemoveBoxOptions,
+    virtualBoxName
+} from './backend.js';
+export { VagrantCliBackend, VagrantCliBackendOptions } from './cli-backend.js';
+export { SshConnectionPool, SshPoolOptions, SshEndpoint, parseSshConfig } from './ssh-pool.js';
+export { SimulatedBackend, SimulatedMachine, SimulatedCommandHandler, SimulatedBackendOptions } from './simulated-backend.js';
+export {
+    VagrantfileModel,
+    MachineSettings,
+    MachineDefinition,
+    ForwardedPort,
+    NetworkConfig,
+    SyncedFolder,
+    Provisioner,
+    ProviderSettings,
+    ExtraStatement,
+    SettingsSection,
+    createVagrantfileModel,
+    createMachineSettings,
+    renderVagrantfile,
+    parseVagrantfile,
+    readVagrantfile,
+    writeVagrantfile,
+    updateVagrantfile
+} from './vagrantfile.js';
+export {
+    HostPortRegistry,
+    PortAllocation,
+    PortRequest,
+    PortRange,
+    DEFAULT_PORT_RANGE,
+    parsePortRange
+} from './port-registry.js';
+
+/**
+ * How long lifecycle operations wait for the VM to reach its target state
+ */
+const DEFAULT_STATE_TIMEOUT_MS = 300000; // 5 mins
+
+/**
+ * Interval between status checks while waiting for a state
+ */
+const STATE_POLL_INTERVAL_MS = 2000;
+
+/**
+ * Grows the root partition and filesystem to fill an enlarged disk
+ * (plain partitions with ext4/xfs, or LVM). Prints the new size of /.
+ */
+const GROW_ROOT_FILESYSTEM_SCRIPT = `set -e
+ROOT=$(findmnt -n -o SOURCE /)
+FSTYPE=$(findmnt -n -o FSTYPE /)
+if [ "$(lsblk -no TYPE "$ROOT")" = "lvm" ]; then
+  PV=$(sudo pvs --noheadings -o pv_name | head -n1 | tr -d ' ')
+else
+  PV=$ROOT
+fi
+DISK=/dev/$(lsblk -no PKNAME "$PV" | head -n1)
+PART=$(cat /sys/class/block/$(basename "$PV")/partition)
+command -v growpart >/dev/null || sudo apt-get install -y cloud-guest-utils >/dev/null 2>&1 || sudo yum install -y cloud-utils-growpart >/dev/null 2>&1
+# growpart exits 1 when the partition already fills the disk
+sudo growpart "$DISK" "$PART" || [ $? -eq 1 ]
+if [ "$(lsblk -no TYPE "$ROOT")" = "lvm" ]; then
+  sudo pvresize "$PV"
+  sudo lvextend -r -l +100%FREE "$ROOT" || true
+elif [ "$FSTYPE" = "xfs" ]; then
+  sudo xfs_growfs /
+else
+  sudo resize2fs "$ROOT"
+fi
+df -BG / | tail -1 | awk '{print $2}'`;
+
+/**
+ * Checks the name of a new managed VM. It becomes a directory under vmsDir,
+ * so path separators (which `env/machine` addressing also relies on) and
+ * `.`/`..` are refused.
+ * @throws If the name is not allowed
+ */
+function validateVMName(name: string): void {
+    if (!/^[A-Za-z0-9._-]+$/.test(name) || name === '.' || name === '..') {
+        throw new Error(`Invalid VM name '${name}' (use letters, digits, '.', '-' and '_')`);
+    }
+}
+
+/**
+ * Whether a guest path contains shell glob characters
+ */
+function hasGlob(pattern: string): boolean {
+    return /[*?[]/.test(pattern);
+}
 
-export const VMStatusSchema = z.enum([
-    'running',
-    'poweroff',
-    'aborted',
-    'saved',
-    'not_created',
-    'unknown'
-]);
-
-export type VMStatus = z.infer<typeof VMStatusSchema>;
-
-export interface VagrantVM {
-    name: string;
-    status: VMStatus;
-    directory?: string;
-    managedBy: 'vagrant' | 'native';
+/**
+ * Escapes a guest path for the shell, leaving glob characters active
+ */
+function shellGlob(pattern: string): string {
+    return pattern.replace(/[^\w\-./*?[\]~]/g, '\\$&');
 }
 
-export interface VMCredentials {
-    username?: string;
-    password?: string;
+/**
+ * Directory the matches of a guest path are made relative to: the part
+ * before the first glob segment, or the parent of a plain path
+ */
+function globBase(pattern: string): string {
+    const segments = pattern.replace(/\/+$/, '').split('/');
+    const firstGlob = segments.findIndex(hasGlob);
+    const base = firstGlob === -1 ? segments.slice(0, -1) : segments.slice(0, firstGlob);
+    return base.join('/') || (pattern.startsWith('/') ? '/' : '.');
 }
 
 export class VagrantClient {
     private vmsDir: string;
-    private vboxPath: string | null = null;
+    private backend: VagrantBackend;
+    private ports: HostPortRegistry;
+    /** Parsed machine definitions per project directory, with the Vagrantfile mtime and size they were read at */
+    private machineDefinitions: Map<string, { mtimeMs: number; size: number; machines?: MachineDefinition[] }> = new Map();
 
-    constructor(vmsDir?: string) {
+    /**
+     * @param vmsDir - Directory holding one Vagrant project per managed VM
+     * @param backend - Execution backend (default: vagrant/VBoxManage CLIs)
+     * @param options - Range host ports are reassigned from when a requested one is taken
+     */
+    constructor(vmsDir?: string, backend?: VagrantBackend, options: { portRange?: PortRange } = {}) {
         this.vmsDir = vmsDir || path.join(process.env.HOME || process.cwd(), '.vagrant-mcp', 'vms');
+        this.backend = backend || new VagrantCliBackend();
         if (!fs.existsSync(this.vmsDir)) {
             fs.mkdirSync(this.vmsDir, { recursive: true });
         }
+        this.ports = new HostPortRegistry(path.join(this.vmsDir, '.port-registry.json'), options.portRange);
     }
 
-    private async getVBoxManage(): Promise<string> {
-        if (this.vboxPath) return this.vboxPath;
+    /**
+     * Identifier of the execution backend in use
+     */
+    get backendKind(): string {
+        return this.backend.kind;
+    }
 
-        // Try common paths on Windows
-        const paths = [
-            'VBoxManage',
-            'C:\\Program Files\\Oracle\\VirtualBox\\VBoxManage.exe',
-            'C:\\Program Files (x86)\\Oracle\\VirtualBox\\VBoxManage.exe'
-        ];
+    /**
+     * Directory holding the managed VMs' projects
+     */
+    get vmsDirectory(): string {
+        return this.vmsDir;
+    }
 
-        for (const p of paths) {
-            try {
-                await execa(p, ['--version']);
-                this.vboxPath = p;
-                return p;
-            } catch {
-                continue;
+    /**
+     * How a VM is run: 'vagrant' for managed VMs and environment machines,
+     * which have a project directory under vmsDirectory, 'native' otherwise
+     */
+    managedBy(name: string): 'vagrant' | 'native' {
+        return this.machineRef(name).kind === 'managed' ? 'vagrant' : 'native';
+    }
+
+    /**
+     * Builds the backend reference for a VM: managed if it has a project
+     * directory under vmsDir, native otherwise. `env/machine` addresses a
+     * machine defined in the Vagrantfile of environment `env`.
+     */
+    private machineRef(name: string): MachineRef {
+        const [project, machine] = name.split('/', 2);
+        const vmDir = path.join(this.vmsDir, project);
+        if (machine === undefined) {
+            if (fs.existsSync(vmDir)) {
+                return { kind: 'managed', name, directory: vmDir };
+            }
+        } else {
+            // An unparsable Vagrantfile leaves the name as the only evidence; vagrant reports unknown machines itself
+            const machines = this.readMachineDefinitions(vmDir);
+            if (machines ? machines.some(m => m.name === machine) : fs.existsSync(vmDir)) {
+                return { kind: 'managed', name, directory: vmDir, machine };
             }
         }
-
-        throw new Error('VBoxManage not found. Please ensure VirtualBox is installed and in your PATH.');
+        return { kind: 'native', name };
     }
 
-    async getVMStatus(name: string): Promise<VMStatus> {
-        const vmDir = path.join(this.vmsDir, name);
-
-        // If it's a Vagrant VM managed by us
-        if (fs.existsSync(vmDir)) {
-            try {
-                const { stdout } = await execa('vagrant', ['status', '--machine-readable'], { cwd: vmDir });
-                const lines = stdout.split('\n');
-                for (const line of lines) {
-                    const parts = line.split(',');
-                    if (parts.length >= 4 && parts[2] === 'state') {
-                        const state = parts[3].trim();
-                        if (state === 'running') return 'running';
-                        if (state === 'poweroff') return 'poweroff';
-                        if (state === 'aborted') return 'aborted';
-                        if (state === 'saved') return 'saved';
-                        if (state === 'not_created') return 'not_created';
-                    }
-                }
-            } catch (error) {
-                logger.error(`Vagrant status failed for ${name}, falling back to VBoxManage`, error);
-            }
+    /**
+     * Machines defined in a project's Vagrantfile (empty for single-machine
+     * projects). The parse is cached until the Vagrantfile's mtime or size changes.
+     * @returns undefined if the Vagrantfile cannot be parsed
+     */
+    private readMachineDefinitions(vmDir: string): MachineDefinition[] | undefined {
+        const stats = fs.statSync(path.join(vmDir, 'Vagrantfile'), { throwIfNoEntry: false });
+        if (!stats) {
+            this.machineDefinitions.delete(vmDir);
+            return [];
         }
+        const { mtimeMs, size } = stats;
+        const cached = this.machineDefinitions.get(vmDir);
+        if (cached?.mtimeMs === mtimeMs && cached.size === size) return cached.machines;
 
-        // Fallback or native VM check via VBoxManage
+        let machines: MachineDefinition[] | undefined;
         try {
-            const vbox = await this.getVBoxManage();
-            const { stdout } = await execa(vbox, ['showvminfo', name, '--machinereadable']);
-            if (stdout.includes('VMState="running"')) return 'running';
-            if (stdout.includes('VMState="poweroff"')) return 'poweroff';
-            if (stdout.includes('VMState="aborted"')) return 'aborted';
-            if (stdout.includes('VMState="saved"')) return 'saved';
-            return 'unknown';
+            machines = readVagrantfile(vmDir)?.machines || [];
         } catch (error) {
-            return 'not_created';
+            logger.warn(`Could not parse Vagrantfile in ${vmDir}: ${error}`);
+        }
+        this.machineDefinitions.set(vmDir, { mtimeMs, size, machines });
+        return machines;
+    }
+
+    /**
+     * Names of all managed VMs, with environment machines as `env/machine`
+     */
+    private listManagedNames(): string[] {
+        if (!fs.existsSync(this.vmsDir)) return [];
+        const names: string[] = [];
+        for (const entry of fs.readdirSync(this.vmsDir, { withFileTypes: true })) {
+            if (!entry.isDirectory()) continue;
+            const machines = this.readMachineDefinitions(path.join(this.vmsDir, entry.name)) ?? [];
+            if (machines.length > 0) {
+                names.push(...machines.map(m => `${entry.name}/${m.name}`));
+            } else {
+                names.push(entry.name);
+            }
         }
+        return names;
+    }
+
+    /**
+     * Applies an edit to a managed VM's Vagrantfile. For environment
+     * machines the edit receives that machine's define block.
+     * @returns false if the VM has no Vagrantfile (native VMs)
+     */
+    private editVagrantfile(name: string, edit: (settings: MachineSettings) => void): boolean {
+        const ref = this.machineRef(name);
+        if (ref.kind !== 'managed') return false;
+        return updateVagrantfile(ref.directory, model => {
+            const machine = ref.machine ? model.machines?.find(m => m.name === ref.machine) : undefined;
+            edit(machine || model);
+        });
+    }
+
+    async getVMStatus(name: string): Promise<VMStatus> {
+        return this.backend.getStatus(this.machineRef(name));
     }
 
     async listVMs(options: { includeStatus?: boolean } = {}): Promise<{ name: string; state: VMStatus; managedBy: 'vagrant' | 'native' }[]> {
         const vmsMap = new Map<string, { name: string; state: VMStatus; managedBy: 'vagrant' | 'native' }>();
 
         // 1. List Vagrant VMs in our managed dir
-        if (fs.existsSync(this.vmsDir)) {
-            const entries = fs.readdirSync(this.vmsDir, { withFileTypes: true });
-            for (const entry of entries) {
-                if (entry.isDirectory()) {
-                    const status = options.includeStatus ? await this.getVMStatus(entry.name) : 'unknown' as VMStatus;
-                    vmsMap.set(entry.name, { name: entry.name, state: status, managedBy: 'vagrant' });
-                }
-            }
+        const managedVBoxNames = new Set<string>();
+        for (const name of this.listManagedNames()) {
+            const status = options.includeStatus ? await this.getVMStatus(name) : 'unknown' as VMStatus;
+            vmsMap.set(name, { name, state: status, managedBy: 'vagrant' });
+            managedVBoxNames.add(virtualBoxName(this.machineRef(name)));
         }
 
         // 2. List all VirtualBox VMs
         try {
-            const vbox = await this.getVBoxManage();
-            const { stdout } = await execa(vbox, ['list', 'vms']);
-            const lines = stdout.split('\n');
-            for (const line of lines) {
-                const match = line.match(/"([^"]+)"/);
-                if (match) {
-                    const name = match[1];
-                    if (!vmsMap.has(name)) {
-                        const state = options.includeStatus ? await this.getVMStatus(name) : 'unknown' as VMStatus;
-                        vmsMap.set(name, { name, state, managedBy: 'native' });
-                    }
+            const names = await this.backend.listNativeVMs();
+            for (const name of names) {
+                if (!vmsMap.has(name) && !managedVBoxNames.has(name)) {
+                    const state = options.includeStatus ? await this.getVMStatus(name) : 'unknown' as VMStatus;
+                    vmsMap.set(name, { name, state, managedBy: 'native' });
                 }
             }
         } catch (error) {
@@ -158,42 +331,11 @@ export class VagrantClient {
      * Parses 'vagrant global-status' to find all running Vagrant instances
      */
     async getGlobalVagrantVMs(): Promise<Array<{ id: string; name: string; state: VMStatus; directory: string }>> {
-        try {
-            const { stdout } = await execa('vagrant', ['global-status', '--prune']);
-            const lines = stdout.split('\n');
-            const vms: Array<{ id: string; name: string; state: VMStatus; directory: string }> = [];
-
-            // Output format: id name provider state directory
-            // Skip header/footer
-            const dataLines = lines.filter(l => l.match(/^[a-f0-9]{7}\s+/));
-
-            for (const line of dataLines) {
-                const parts = line.trim().split(/\s+/);
-                if (parts.length >= 5) {
-                    const id = parts[0];
-                    const name = parts[1];
-                    let stateStr = parts[3];
-                    const directory = parts.slice(4).join(' ');
-
-                    // Map Vagrant state to VMStatus
-                    let state: VMStatus = 'unknown';
-                    if (stateStr === 'running') state = 'running';
-                    else if (stateStr === 'poweroff') state = 'poweroff';
-                    else if (stateStr === 'saved') state = 'saved';
-                    else if (stateStr === 'aborted') state = 'aborted';
-
-                    vms.push({ id, name, state, directory });
-                }
-            }
-            return vms;
-        } catch (error) {
-            return [];
-        }
+        return this.backend.listGlobalVMs();
     }
 
     listVMsSync(): string[] {
-        if (!fs.existsSync(this.vmsDir)) return [];
-        return fs.readdirSync(this.vmsDir).filter(f => fs.statSync(path.join(this.vmsDir, f)).isDirectory());
+        return this.listManagedNames();
     }
 
     /**
@@ -201,7 +343,7 @@ export class VagrantClient {
      * Useful for logging in blindly or controlling the VM when Guest Additions are down.
      */
     async sendKeystrokes(name: string, sequence: string): Promise<void> {
-        const vbox = await this.getVBoxManage();
+        const ref = this.machineRef(name);
         // Check if VM satisfies basic running check, though we might want to try even if status is weird
         const status = await this.getVMStatus(name);
         if (status !== 'running') {
@@ -213,49 +355,31 @@ export class VagrantClient {
         for (const chunk of chunks) {
             if (chunk === '<Enter>' || chunk === '<Return>') {
                 // Scancode for Enter is 1C (Press) 9C (Release). 
-                // VBoxManage controlvm ... keyboardputscancode 1c 9c
-                await execa(vbox, ['controlvm', name, 'keyboardputscancode', '1c', '9c']);
+                await this.backend.keyboardPutScancodes(ref, ['1c', '9c']);
             } else if (chunk.length > 0) {
-                // Determine if native or vagrant VM for ID resolution? 
-                // VBoxManage works with name usually.
-                await execa(vbox, ['controlvm', name, 'keyboardputstring', chunk]);
+                await this.backend.keyboardPutString(ref, chunk);
             }
         }
     }
 
-    async executeCommand(name: string, command: string, options: { timeout?: number, username?: string, password?: string } = {}): Promise<{ stdout: string; stderr: string; exitCode: number; timedOut?: boolean }> {
-        const vmDir = path.join(this.vmsDir, name);
-        const timeout = options.timeout !== undefined ? options.timeout : 300000; // Default 5 mins
+    async executeCommand(name: string, command: string, options: ExecOptions = {}): Promise<ExecResult> {
+        const ref = this.machineRef(name);
 
         // If it's a native VM or doesn't exist in our managed dir, try native OR global execution
-        if (!fs.existsSync(vmDir)) {
+        if (ref.kind === 'native') {
             // 1. Try Global Vagrant ID/Name (Prioritized for robustness via SSH)
             const globalVMs = await this.getGlobalVagrantVMs();
             const globalVM = globalVMs.find(v => v.name === name || v.id === name);
 
             if (globalVM) {
-                try {
-                    // Use vagrant ssh <id> -c command
-                    const result = await execa('vagrant', ['ssh', globalVM.id, '-c', command], {
-                        timeout
-                    });
-                    return {
-                        stdout: result.stdout,
-                        stderr: result.stderr,
-                        exitCode: result.exitCode,
-                        timedOut: false
-                    };
-                } catch (error: any) {
-                    if (error.timedOut) return { stdout: '', stderr: '', exitCode: 124, timedOut: true };
-                    return { stdout: error.stdout || '', stderr: error.stderr || '', exitCode: error.exitCode || 1, timedOut: false };
-                }
+                return this.backend.exec({ kind: 'global', name: globalVM.name, id: globalVM.id, directory: globalVM.directory }, command, options);
             }
 
             // 2. Try Native VirtualBox Name (Fallback if not known to Vagrant)
             const vms = await this.listVMs({ includeStatus: false });
             const nativeVM = vms.find(v => v.name === name && v.managedBy === 'native');
             if (nativeVM) {
-                return this.executeCommandNative(name, command, options);
+                return this.backend.exec({ kind: 'native', name }, command, options);
             }
 
             const vmsSync = this.listVMsSync();
@@ -264,54 +388,153 @@ export class VagrantClient {
             throw new Error(`VM ${name} not found${suggestion}`);
         }
 
-        try {
-            // Use vagrant ssh -c to execute command
-            const result = await execa('vagrant', ['ssh', '-c', command], {
-                cwd: vmDir,
-                timeout
-            });
-            return {
-                stdout: result.stdout,
-                stderr: result.stderr,
-                exitCode: result.exitCode,
-                timedOut: false
-            };
-        } catch (error: any) {
-            if (error.timedOut) {
-                return {
-                    stdout: error.stdout || '',
-                    stderr: error.stderr || '',
-                    exitCode: 124, // Standard exit code for timeout
-                    timedOut: true
-                };
-            }
-            // execa throws on non-zero exit code
-            return {
-                stdout: error.stdout || '',
-                stderr: error.stderr || '',
-                exitCode: error.exitCode || 1,
-                timedOut: false
-            };
-        }
+        return this.backend.exec(ref, command, options);
     }
 
     async uploadFile(name: string, source: string, destination: string, options: VMCredentials = {}): Promise<void> {
-        const vmDir = path.join(this.vmsDir, name);
-        if (!fs.existsSync(vmDir)) {
+        const ref = this.machineRef(name);
+        if (ref.kind === 'native') {
             // Native fallback
             const vms = await this.listVMs();
             const nativeVM = vms.find(v => v.name === name && v.managedBy === 'native');
-            if (nativeVM) {
-                return this.uploadFileNative(name, source, destination, options);
+            if (!nativeVM) {
+                throw new Error(`VM ${name} not found`);
+            }
+        }
+
+        await this.backend.upload(ref, source, destination, options);
+    }
+
+    /**
+     * Copies files from the VM to the host. The source may be a file, a
+     * directory (with recursive) or a glob; directories and glob matches are
+     * copied into the destination directory under their own names, a single
+     * file is written to the destination path (or into it, if it is a
+     * directory). Content is copied byte for byte, so binaries are safe.
+     * @param name - VM name
+     * @param source - Path or glob in the VM
+     * @param destination - Path on the host
+     * @param options - recursive copies directories; verifyChecksum (default: true) compares SHA-256 hashes;
+     * literal takes the source as a plain path, for names such as app/[slug]/page.tsx
+     * @throws If nothing matches the source, or it is a directory and recursive is not set
+     */
+    async downloadFile(
+        name: string,
+        source: string,
+        destination: string,
+        options: VMCredentials & { recursive?: boolean; verifyChecksum?: boolean; literal?: boolean } = {}
+    ): Promise<DownloadResult> {
+        await this.requireState(name);
+        const ref = this.machineRef(name);
+        const credentials = { username: options.username, password: options.password };
+        const verify = options.verifyChecksum !== false;
+        const glob = !options.literal && hasGlob(source);
+
+        // One line per match: "D <dir>" or "F <size> <file>"
+        const stat = portableStat('F %s %n', 'F %z %N');
+        const findFiles = options.recursive ? `; find "$p" -type f -exec sh -c ${stat} sh {} +` : '';
+        const listing = await this.backend.exec(ref,
+            `for p in ${options.literal ? shellQuote(source) : shellGlob(source)}; do if [ -d "$p" ]; then echo "D $p"${findFiles}; elif [ -f "$p" ]; then sh -c ${stat} sh "$p"; fi; done`,
+            credentials);
+        if (listing.exitCode !== 0) {
+            throw new Error(listing.stderr || `Failed to list ${source} in VM ${name}`);
+        }
+
+        const matches: Array<{ source: string; sizeBytes: number }> = [];
+        const directories: string[] = [];
+        for (const line of listing.stdout.split('\n')) {
+            const dir = line.match(/^D (.+)$/);
+            const file = line.match(/^F (\d+) (.+)$/);
+            if (dir) directories.push(dir[1]);
+            if (file) matches.push({ source: file[2], sizeBytes: parseInt(file[1], 10) });
+        }
+        if (directories.length > 0 && !options.recursive) {
+            throw new Error(`${directories[0]} is a directory in VM ${name}; set recursive to download it`);
+        }
+        if (matches.length === 0) {
+            throw new Error(directories.length > 0
+                ? `No files to download under ${source} in VM ${name}`
+                : `No such file in VM ${name}: ${source}`);
+        }
+
+        // A lone file keeps the destination as its name; everything else lands inside it
+        const single = matches.length === 1 && directories.length === 0 && !glob;
+        const intoDirectory = !single
+            || /[\\/]$/.test(destination)
+            || (fs.existsSync(destination) && fs.statSync(destination).isDirectory());
+        const base = glob ? globBase(source) : path.posix.dirname(source.replace(/\/+$/, ''));
+        const files: DownloadedFile[] = matches.map(match => ({
+            source: match.source,
+            destination: single && !intoDirectory
+                ? destination
+                : path.join(destination, ...(single ? [path.posix.basename(match.source)] : path.posix.relative(base, match.source).split('/'))),
+            sizeBytes: match.sizeBytes
+        }));
+
+        for (const file of files) {
+            await fs.promises.mkdir(path.dirname(file.destination), { recursive: true });
+            await this.backend.download(ref, file.source, file.destination, credentials);
+        }
+
+        let mismatches = 0;
+        if (verify) {
+            const guestHashes = await this.guestChecksums(ref, files.map(f => f.source), credentials);
+            for (const file of files) {
+                file.sha256 = crypto.createHash('sha256').update(await fs.promises.readFile(file.destination)).digest('hex');
+                file.verified = file.sha256 === guestHashes.get(file.source);
+                if (!file.verified) mismatches++;
             }
-            throw new Error(`VM ${name} not found`);
         }
 
-        // vagrant upload source [destination] [name|id]
-        await execa('vagrant', ['upload', source, destination], { cwd: vmDir });
+        const totalBytes = files.reduce((sum, f) => sum + f.sizeBytes, 0);
+        return {
+            success: mismatches === 0,
+            vmName: name,
+            files,
+            totalBytes,
+            message: mismatches > 0
+                ? `Downloaded ${files.length} file(s) from ${name}, but ${mismatches} did not match the guest checksum`
+                : `Downloaded ${files.length} file(s) (${totalBytes} bytes) from ${name} to ${destination}${verify ? ', checksums verified' : ''}`
+        };
+    }
+
+    /**
+     * Copies one known guest file to a host path. Unlike downloadFile there
+     * is no state check, listing or checksum pass: this is for the sync
+     * engine, which has just listed and hashed the file itself.
+     * @param name - VM name
+     * @param source - Path of a regular file in the VM
+     * @param destination - File path on the host; parent directories are created
+     */
+    async downloadGuestFile(name: string, source: string, destination: string, credentials: VMCredentials = {}): Promise<void> {
+        await fs.promises.mkdir(path.dirname(destination), { recursive: true });
+        await this.backend.download(this.machineRef(name), source, destination, credentials);
+    }
+
+    /**
+     * SHA-256 of guest files, keyed by path
+     */
+    private async guestChecksums(ref: MachineRef, files: string[], credentials: VMCredentials): Promise<Map<string, string>> {
+        const hashes = new Map<string, string>();
+        // Batched to stay well below the guest's argument length limit
+        for (let i = 0; i < files.length; i += 100) {
+            const args = files.slice(i, i + 100).map(f => shellQuote(f)).join(' ');
+            const result = await this.backend.exec(ref, `sha256sum -- ${args}`, credentials);
+            for (const line of result.stdout.split('\n')) {
+                // Names with a backslash or line break are escaped and the line starts with '\'
+                const match = line.match(/^(\\?)([0-9a-f]{64}) [ *](.+)$/);
+                if (!match) continue;
+                const file = match[1]
+                    ? match[3].replace(/\\([\\nr])/g, (_, c) => (c === 'n' ? '\n' : c === 'r' ? '\r' : '\\'))
+                    : match[3];
+                hashes.set(file, match[2]);
+            }
+        }
+        return hashes;
     }
 
     async createVM(name: string, box: string = 'ubuntu/focal64', guiMode: boolean = false): Promise<void> {
+        validateVMName(name);
         const vmDir = path.join(this.vmsDir, name);
         if (!fs.existsSync(vmDir)) {
             fs.mkdirSync(vmDir, { recursive: true });
@@ -320,55 +543,189 @@ export class VagrantClient {
         // Generate Vagrantfile if not exists
         const vagrantfilePath = path.join(vmDir, 'Vagrantfile');
         if (!fs.existsSync(vagrantfilePath)) {
-            const content = `
-Vagrant.configure("2") do |config|
-  config.vm.box = "${box}"
-  config.vm.provider "virtualbox" do |vb|
-    vb.name = "${name}"
-    vb.memory = "1024"
-    vb.cpus = 1
-    vb.gui = ${guiMode}
-  end
-end
-`;
-            fs.writeFileSync(vagrantfilePath, content);
+            writeVagrantfile(vmDir, createVagrantfileModel(box, {
+                name,
+                memory: 1024,
+                cpus: 1,
+                gui: guiMode
+            }));
         }
 
-        await execa('vagrant', ['up'], { cwd: vmDir });
+        await this.backend.up({ kind: 'managed', name, directory: vmDir });
     }
 
-    async haltVM(name: string): Promise<void> {
-        const vmDir = path.join(this.vmsDir, name);
-        if (fs.existsSync(vmDir)) {
-            await execa('vagrant', ['halt'], { cwd: vmDir });
-        } else {
-            // Native fallback
-            const vbox = await this.getVBoxManage();
-            await execa(vbox, ['controlvm', name, 'savestate']); // 'savestate' is safer than 'poweroff'
+    /**
+     * Polls a VM until it reaches one of the target states
+     * @returns The last state observed, which is not a target on timeout
+     */
+    private async waitForState(name: string, targets: VMStatus[], timeoutMs: number = DEFAULT_STATE_TIMEOUT_MS): Promise<VMStatus> {
+        const deadline = Date.now() + timeoutMs;
+        let state = await this.getVMStatus(name);
+        while (!targets.includes(state) && Date.now() < deadline) {
+            await new Promise(resolve => setTimeout(resolve, STATE_POLL_INTERVAL_MS));
+            state = await this.getVMStatus(name);
         }
+        return state;
     }
 
-    async startVM(name: string): Promise<void> {
-        const vmDir = path.join(this.vmsDir, name);
-        if (fs.existsSync(vmDir)) {
-            await execa('vagrant', ['up'], { cwd: vmDir });
-        } else {
-            // Native fallback
-            const vbox = await this.getVBoxManage();
-            await execa(vbox, ['startvm', name, '--type', 'headless']);
+    /**
+     * Runs a lifecycle operation and waits for the VM to reach the target state
+     */
+    private async changeState(
+        name: string,
+        previousState: VMStatus,
+        target: VMStatus,
+        operation: () => Promise<void>,
+        timeoutMs?: number
+    ): Promise<VMStateChange> {
+        await operation();
+        const state = await this.waitForState(name, [target], timeoutMs);
+        const reached = state === target;
+        return {
+            success: reached,
+            vmName: name,
+            previousState,
+            state,
+            message: reached
+                ? `VM ${name} is now ${state}`
+                : `VM ${name} did not reach '${target}' in time (state: ${state})`
+        };
+    }
+
+    /**
+     * Current state of a VM that must exist
+     * @throws If the VM is not created
+     */
+    private async requireState(name: string): Promise<VMStatus> {
+        const state = await this.getVMStatus(name);
+        if (state === 'not_created') {
+            throw new Error(`VM ${name} not found`);
+        }
+        return state;
+    }
+
+    /**
+     * Shuts a VM down through the guest OS and waits until it is powered off
+     * @param name - VM name
+     * @param options - force powers the VM off without a guest shutdown
+     */
+    async haltVM(name: string, options: { force?: boolean; timeout?: number } = {}): Promise<VMStateChange> {
+        const previousState = await this.requireState(name);
+        if (previousState === 'poweroff' || previousState === 'aborted') {
+            return { success: true, vmName: name, previousState, state: previousState, message: `VM ${name} is already stopped` };
+        }
+
+        const result = await this.changeState(name, previousState, 'poweroff',
+            () => this.backend.halt(this.machineRef(name), { force: options.force }), options.timeout);
+        if (!result.success && !options.force) {
+            result.message += '; the guest may be ignoring the shutdown request, retry with force';
+        }
+        return result;
+    }
+
+    /**
+     * Boots a VM and waits until it is running. A suspended VM is resumed
+     * unless forced, which discards its saved state and boots it fresh.
+     * @param name - VM name
+     * @param options - force discards saved state before booting
+     */
+    async startVM(name: string, options: { force?: boolean; timeout?: number } = {}): Promise<VMStateChange> {
+        const previousState = await this.requireState(name);
+        if (previousState === 'running') {
+            return { success: true, vmName: name, previousState, state: previousState, message: `VM ${name} is already running` };
+        }
+
+        const ref = this.machineRef(name);
+        return this.changeState(name, previousState, 'running', async () => {
+            if (previousState === 'saved' && options.force) {
+                await this.backend.discardState(ref);
+            }
+            await this.backend.up(ref);
+        }, options.timeout);
+    }
+
+    /**
+     * Restarts a VM, applying Vagrantfile changes, and waits until it is running
+     * @param name - VM name
+     * @param options - force powers the VM off instead of shutting it down
+     */
+    async reloadVM(name: string, options: { force?: boolean; timeout?: number } = {}): Promise<VMStateChange> {
+        const previousState = await this.requireState(name);
+        return this.changeState(name, previousState, 'running',
+            () => this.backend.reload(this.machineRef(name), { force: options.force }), options.timeout);
+    }
+
+    /**
+     * Saves a running VM's state to disk and waits until it is suspended
+     * @param name - VM name
+     * @param options - force powers the VM off if its state cannot be saved
+     */
+    async suspendVM(name: string, options: { force?: boolean; timeout?: number } = {}): Promise<VMStateChange> {
+        const previousState = await this.requireState(name);
+        if (previousState === 'saved') {
+            return { success: true, vmName: name, previousState, state: previousState, message: `VM ${name} is already suspended` };
+        }
+        if (previousState !== 'running') {
+            return { success: false, vmName: name, previousState, state: previousState, message: `VM ${name} is not running (state: ${previousState})` };
+        }
+
+        const ref = this.machineRef(name);
+        try {
+            return await this.changeState(name, previousState, 'saved', () => this.backend.suspend(ref), options.timeout);
+        } catch (error: any) {
+            if (!options.force) throw error;
+            logger.warn(`Suspending ${name} failed, powering it off: ${error.stderr || error.message}`);
+            const result = await this.changeState(name, previousState, 'poweroff',
+                () => this.backend.halt(ref, { force: true }), options.timeout);
+            result.message += ' (state could not be saved, VM was powered off)';
+            return result;
+        }
+    }
+
+    /**
+     * Restores a suspended VM and waits until it is running
+     * @param name - VM name
+     * @param options - force boots the VM even if it has no saved state
+     */
+    async resumeVM(name: string, options: { force?: boolean; timeout?: number } = {}): Promise<VMStateChange> {
+        const previousState = await this.requireState(name);
+        if (previousState === 'running') {
+            return { success: true, vmName: name, previousState, state: previousState, message: `VM ${name} is already running` };
+        }
+
+        const ref = this.machineRef(name);
+        if (previousState === 'saved') {
+            return this.changeState(name, previousState, 'running', () => this.backend.resume(ref), options.timeout);
+        }
+        if (!options.force) {
+            return {
+                success: false,
+                vmName: name,
+                previousState,
+                state: previousState,
+                message: `VM ${name} is not suspended (state: ${previousState}); pass force to boot it`
+            };
         }
+        return this.changeState(name, previousState, 'running', () => this.backend.up(ref), options.timeout);
     }
 
     async destroyVM(name: string): Promise<void> {
-        const vmDir = path.join(this.vmsDir, name);
-        if (fs.existsSync(vmDir)) {
-            await execa('vagrant', ['destroy', '-f'], { cwd: vmDir });
+        const ref = this.machineRef(name);
+        if (ref.kind === 'managed') {
+            await this.backend.destroy(ref);
+            // Destroying an environment frees the ports of all its machines
+            const owners = new Set(this.ports.list().map(a => a.vmName));
+            for (const owner of owners) {
+                if (owner === name || (!ref.machine && owner.startsWith(`${name}/`))) {
+                    await this.ports.release(owner);
+                }
+            }
         }
     }
 
     async rsyncToVM(name: string): Promise<void> {
-        const vmDir = path.join(this.vmsDir, name);
-        if (!fs.existsSync(vmDir)) {
+        const ref = this.machineRef(name);
+        if (ref.kind === 'native') {
             // Native fallback - use recursive directory copy if possible, or skip
             const vms = await this.listVMs();
             const nativeVM = vms.find(v => v.name === name && v.managedBy === 'native');
@@ -380,75 +737,16 @@ end
             }
             throw new Error(`VM ${name} not found`);
         }
-        await execa('vagrant', ['rsync'], { cwd: vmDir });
+        await this.backend.rsync(ref, 'to_vm');
     }
 
     async rsyncFromVM(name: string): Promise<void> {
-        const vmDir = path.join(this.vmsDir, name);
-        if (!fs.existsSync(vmDir)) {
+        const ref = this.machineRef(name);
+        if (ref.kind === 'native') {
             throw new Error(`VM ${name} not found`);
         }
         // rsync-back requires the vagrant-rsync-back plugin
-        // Fallback: just run rsync command in reverse direction
-        await execa('vagrant', ['rsync-back'], { cwd: vmDir });
-    }
-
-    private async executeCommandNative(name: string, command: string, options: { timeout?: number, username?: string, password?: string } = {}): Promise<{ stdout: string; stderr: string; exitCode: number; timedOut?: boolean }> {
-        const vbox = await this.getVBoxManage();
-        const timeout = options.timeout || 60000;
-        const username = options.username || 'vagrant';
-        const password = options.password || 'vagrant';
-
-        // Fast check: Ensure VM is running
-        const status = await this.getVMStatus(name);
-        if (status !== 'running') {
-            throw new Error(`Cannot execute command: VM '${name}' is in state '${status}' (must be 'running')`);
-        }
-
-        try {
-            // VBoxManage guestcontrol <vmname> run --exe "/bin/sh" --username <user> --password <pass> -- -c "<command>"
-            const result = await execa(vbox, [
-                'guestcontrol', name, 'run',
-                '--exe', '/bin/sh',
-                '--username', username,
-                '--password', password,
-                '--', '-c', command
-            ], { timeout });
-
-            return {
-                stdout: result.stdout,
-                stderr: result.stderr,
-                exitCode: result.exitCode,
-                timedOut: false
-            };
-        } catch (error: any) {
-            // Enhance error message for authentication failures
-            if (error.stderr && error.stderr.includes('VBOX_E_IPRT_ERROR')) {
-                error.message += ` (Hint: Check if Guest Additions are running and '${username}' user credentials are valid)`;
-            }
-
-            return {
-                stdout: error.stdout || '',
-                stderr: error.stderr || '',
-                exitCode: error.exitCode || 1,
-                timedOut: !!error.timedOut
-            };
-        }
-    }
-
-    private async uploadFileNative(name: string, source: string, destination: string, options: VMCredentials = {}): Promise<void> {
-        const vbox = await this.getVBoxManage();
-        const username = options.username || 'vagrant';
-        const password = options.password || 'vagrant';
-
-        // VBoxManage guestcontrol <vmname> copyto <src> <dest> --username <user> --password <pass>
-        await execa(vbox, [
-            'guestcontrol', name, 'copyto',
-            source, destination,
-            '--username', username,
-            '--password', password,
-            '--target-directory' // Ensure destination is treated as directory if it ends in /
-        ]);
+        await this.backend.rsync(ref, 'from_vm');
     }
 
     /**
@@ -464,10 +762,15 @@ end
             memory?: number;
             ports?: { guest: number; host: number }[];
             syncType?: string;
+            /** Gitignore-style patterns, relative to projectPath */
             excludePatterns?: string[];
+            /** Also exclude what projectPath's .gitignore and .vmsyncignore list */
+            useIgnoreFiles?: boolean;
             guiMode?: boolean;
+            provisioners?: Provisioner[];
         }
-    ): Promise<void> {
+    ): Promise<{ vmName: string; ports: PortAllocation[] }> {
+        validateVMName(name);
         const vmDir = path.join(this.vmsDir, name);
         if (!fs.existsSync(vmDir)) {
             fs.mkdirSync(vmDir, { recursive: true });
@@ -490,69 +793,166 @@ end
             '__pycache__', '*.pyc', 'venv', '.venv', '*.o', '*.out'
         ];
 
-        // Generate port forwarding rules
-        const portRules = ports
-            .map(p => `    config.vm.network "forwarded_port", guest: ${p.guest}, host: ${p.host}`)
-            .join('\n');
+        // Ports taken by other VMs or host processes are moved to free ones
+        const allocations = await this.ports.allocate(name, ports);
 
-        // Generate exclude patterns for rsync
-        const excludeArgs = excludePatterns.map(p => `"${p}"`).join(', ');
+        const model = createVagrantfileModel(box, { name, memory, cpus: cpu, gui: guiMode });
+        model.forwardedPorts = allocations.map(a => ({ guest: a.guestPort, host: a.hostPort }));
+        model.syncedFolders = [{
+            hostPath: projectPath,
+            guestPath: '/vagrant',
+            type: syncType,
+            rsyncExclude: new IgnoreMatcher(projectPath, excludePatterns, { loadIgnoreFiles: config.useIgnoreFiles }).toRsyncExcludes()
+        }];
+        model.provisioners = config.provisioners || [];
+        writeVagrantfile(vmDir, model);
 
-        const vagrantfileContent = `
-Vagrant.configure("2") do |config|
-  config.vm.box = "${box}"
+        logger.info(`Creating VM ${name} with box ${box}, CPU: ${cpu}, Memory: ${memory}MB`);
+        await this.backend.up({ kind: 'managed', name, directory: vmDir });
+        return { vmName: name, ports: allocations };
+    }
+
+    /**
+     * Creates a multi-machine environment: one Vagrant project whose
+     * Vagrantfile defines every machine with `config.vm.define`, all joined
+     * to a shared private network. Machines are written and booted in
+     * dependency order; each is then addressable as `env/machine`.
+     */
+    async createEnvironment(
+        name: string,
+        config: {
+            box?: string;
+            /** First three octets of the private network (default: 192.168.56) */
+            subnet?: string;
+            machines: EnvironmentMachine[];
+        }
+    ): Promise<{
+        success: boolean;
+        environment: string;
+        bootOrder: string[];
+        machines: { name: string; ip: string; state: VMStatus; ports: PortAllocation[] }[];
+        message: string;
+    }> {
+        if (!/^[a-zA-Z0-9_-]+$/.test(name)) {
+            throw new Error(`Invalid environment name '${name}' (use letters, digits, '-' and '_')`);
+        }
+        if (config.machines.length === 0) {
+            throw new Error('An environment needs at least one machine');
+        }
 
-  config.vm.provider "virtualbox" do |vb|
-    vb.name = "${name}"
-    vb.memory = "${memory}"
-    vb.cpus = ${cpu}
-    vb.gui = ${guiMode}
-  end
+        const envDir = path.join(this.vmsDir, name);
+        if (fs.existsSync(path.join(envDir, 'Vagrantfile'))) {
+            throw new Error(`Environment ${name} already exists`);
+        }
 
-${portRules}
+        const ordered = this.orderByDependencies(config.machines);
+        const subnet = config.subnet || '192.168.56';
+        const ips = new Map(config.machines.map((m, i) => [m.name, m.ip || `${subnet}.${10 + i}`]));
+        const allocations = new Map<string, PortAllocation[]>();
+        for (const spec of ordered) {
+            allocations.set(spec.name, await this.ports.allocate(`${name}/${spec.name}`, spec.ports || []));
+        }
 
-  config.vm.synced_folder "${projectPath.replace(/\\/g, '/')}", "/vagrant",
-    type: "${syncType}",
-    rsync__exclude: [${excludeArgs}]
-end
-`;
+        const model = createVagrantfileModel(config.box || 'ubuntu/focal64');
+        model.machines = ordered.map(spec => {
+            const ref: MachineRef = { kind: 'managed', name: `${name}/${spec.name}`, directory: envDir, machine: spec.name };
+            const machine: MachineDefinition = {
+                name: spec.name,
+                ...createMachineSettings({
+                    name: virtualBoxName(ref),
+                    memory: spec.memory || 1024,
+                    cpus: spec.cpu || 1
+                }),
+                hostname: spec.name
+            };
+            if (spec.box) machine.box = spec.box;
+            machine.networks = [{ type: 'private_network', ip: ips.get(spec.name) }];
+            machine.forwardedPorts = (allocations.get(spec.name) || []).map(a => ({ guest: a.guestPort, host: a.hostPort }));
+            machine.provisioners = spec.provisioners || [];
+            return machine;
+        });
 
-        const vagrantfilePath = path.join(vmDir, 'Vagrantfile');
-        fs.writeFileSync(vagrantfilePath, vagrantfileContent);
+        fs.mkdirSync(envDir, { recursive: true });
+        writeVagrantfile(envDir, model);
 
-        logger.info(`Creating VM ${name} with box ${box}, CPU: ${cpu}, Memory: ${memory}MB`);
-        await execa('vagrant', ['up'], { cwd: vmDir });
+        const bootOrder = ordered.map(m => m.name);
+        const booted: string[] = [];
+        try {
+            for (const machine of bootOrder) {
+                logger.info(`Bringing up ${name}/${machine}...`);
+                await this.backend.up({ kind: 'managed', name: `${name}/${machine}`, directory: envDir, machine });
+                booted.push(machine);
+            }
+        } catch (error: any) {
+            logger.error(`Failed to bring up environment ${name}`, error);
+        }
+
+        const machines = await Promise.all(bootOrder.map(async machine => ({
+            name: `${name}/${machine}`,
+            ip: ips.get(machine) as string,
+            state: await this.getVMStatus(`${name}/${machine}`),
+            ports: allocations.get(machine) || []
+        })));
+        const success = booted.length === bootOrder.length;
+
+        return {
+            success,
+            environment: name,
+            bootOrder,
+            machines,
+            message: success
+                ? `Environment ${name} is up (${bootOrder.join(' -> ')})`
+                : `Environment ${name} stopped after ${booted.length}/${bootOrder.length} machines; ${bootOrder[booted.length]} failed to come up`
+        };
     }
 
     /**
-     * Toggles between Headless and GUI mode for a VM.
+     * Sorts environment machines so every machine follows its dependencies,
+     * keeping the declared order otherwise
      */
-    async setDisplayMode(name: string, mode: 'gui' | 'headless'): Promise<{ success: boolean; message: string }> {
-        const vmDir = path.join(this.vmsDir, name);
-        const guiValue = mode === 'gui' ? 'true' : 'false';
-
-        if (fs.existsSync(vmDir)) {
-            const vagrantfilePath = path.join(vmDir, 'Vagrantfile');
-            if (fs.existsSync(vagrantfilePath)) {
-                let content = fs.readFileSync(vagrantfilePath, 'utf8');
-                if (content.includes('vb.gui =')) {
-                    content = content.replace(/vb\.gui\s*=\s*(true|false)/, `vb.gui = ${guiValue}`);
-                } else {
-                    content = content.replace(/config\.vm\.provider\s+"virtualbox"\s+do\s+\|vb\|/, (match) => {
-                        return `${match}\n    vb.gui = ${guiValue}`;
-                    });
+    private orderByDependencies(machines: EnvironmentMachine[]): EnvironmentMachine[] {
+        const byName = new Map<string, EnvironmentMachine>();
+        for (const machine of machines) {
+            if (!/^[a-zA-Z0-9_-]+$/.test(machine.name)) {
+                throw new Error(`Invalid machine name '${machine.name}' (use letters, digits, '-' and '_')`);
+            }
+            if (byName.has(machine.name)) {
+                throw new Error(`Duplicate machine name '${machine.name}'`);
+            }
+            byName.set(machine.name, machine);
+        }
+        for (const machine of machines) {
+            for (const dep of machine.dependsOn || []) {
+                if (!byName.has(dep)) {
+                    throw new Error(`Machine '${machine.name}' depends on unknown machine '${dep}'`);
                 }
-                fs.writeFileSync(vagrantfilePath, content);
             }
         }
 
-        // Always apply via VBoxManage if possible for immediate effect or for native VMs
-        try {
-            const vbox = await this.getVBoxManage();
-            // This only works if VM is off or supports hot-plugging, but let's try
-            // Usually requires VM restart, which reloadVM will do.
-            logger.info(`Display mode for VM ${name} set to ${mode} in config.`);
-        } catch (e) { }
+        const ordered: EnvironmentMachine[] = [];
+        const placed = new Set<string>();
+        while (ordered.length < machines.length) {
+            const next = machines.find(m => !placed.has(m.name) && (m.dependsOn || []).every(d => placed.has(d)));
+            if (!next) {
+                const cycle = machines.filter(m => !placed.has(m.name)).map(m => m.name);
+                throw new Error(`Circular dependency between machines: ${cycle.join(', ')}`);
+            }
+            ordered.push(next);
+            placed.add(next.name);
+        }
+        return ordered;
+    }
+
+    /**
+     * Toggles between Headless and GUI mode for a VM.
+     */
+    async setDisplayMode(name: string, mode: 'gui' | 'headless'): Promise<{ success: boolean; message: string }> {
+        this.editVagrantfile(name, model => {
+            model.provider.gui = mode === 'gui';
+        });
+
+        // Takes effect on the next boot, which reloadVM will do.
+        logger.info(`Display mode for VM ${name} set to ${mode} in config.`);
 
         return {
             success: true,
@@ -560,16 +960,92 @@ end
         };
     }
 
-    async reloadVM(name: string): Promise<void> {
-        const vmDir = path.join(this.vmsDir, name);
-        if (fs.existsSync(vmDir)) {
-            await execa('vagrant', ['reload'], { cwd: vmDir });
-        } else {
-            // Native fallback: restart VM
-            await this.haltVM(name);
-            await this.startVM(name);
+    /**
+     * Re-runs a VM's provisioners, optionally limited to some of them
+     * (`--provision-with`). Output is split into one entry per provisioner
+     * so a failure can be traced to its step.
+     */
+    async provisionVM(name: string, options: { provisioners?: string[]; timeout?: number; onOutput?: (chunk: OutputChunk) => void } = {}): Promise<{
+        success: boolean;
+        vmName: string;
+        steps: ProvisionStep[];
+        failedStep?: string;
+        exitCode: number;
+        message: string;
+    }> {
+        const ref = this.machineRef(name);
+        if (ref.kind !== 'managed') {
+            throw new Error(`VM ${name} not found. Only Vagrant-managed VMs can be provisioned.`);
         }
-    }
+
+        if (options.provisioners && options.provisioners.length > 0) {
+            const model = readVagrantfile(ref.directory);
+            const definition = ref.machine ? model?.machines?.find(m => m.name === ref.machine) : undefined;
+            const available = [...(model?.provisioners || []), ...(definition?.provisioners || [])];
+            const known = new Set(available.flatMap(p => p.name ? [p.name, p.type] : [p.type]));
+            for (const requested of options.provisioners) {
+                if (!known.has(requested)) {
+                    const candidate = closestMatch(requested, Array.from(known));
+                    const suggestion = candidate ? `. Did you mean '${candidate}'?` : '';
+                    throw new Error(`Provisioner '${requested}' is not defined for VM ${name}${suggestion}`);
+                }
+            }
+        }
+
+        const result = await this.backend.provision(ref, {
+            provisionWith: options.provisioners,
+            timeout: options.timeout,
+            onOutput: options.onOutput
+        });
+
+        const steps = this.parseProvisionOutput(result.stdout);
+        const success = result.exitCode === 0;
+        let failedStep: string | undefined;
+        if (!success && steps.length > 0) {
+            // Vagrant stops at the first failing provisioner
+            const last = steps[steps.length - 1];
+            last.success = false;
+            if (result.stderr) last.output = [last.output, result.stderr].filter(Boolean).join('\n');
+            failedStep = last.name;
+        }
+
+        return {
+            success,
+            vmName: name,
+            steps,
+            failedStep,
+            exitCode: result.exitCode,
+            message: success
+                ? `Ran ${steps.length} provisioner(s) on ${name}`
+                : failedStep
+                    ? `Provisioner '${failedStep}' failed on ${name}`
+                    : (result.stderr || result.stdout || `Provisioning ${name} failed`).trim()
+        };
+    }
+
+    /**
+     * Splits `vagrant provision` output at its
+     * `==> machine: Running provisioner: name (type)...` markers
+     */
+    private parseProvisionOutput(stdout: string): ProvisionStep[] {
+        const steps: ProvisionStep[] = [];
+        let prefix = '';
+        for (const line of stdout.split('\n')) {
+            const marker = line.match(/^==> ([^:]+): Running provisioner: (.+?)(?: \((\w+)\))?\.\.\.\s*$/);
+            if (marker) {
+                prefix = `${marker[1]}: `;
+                steps.push({ name: marker[2], type: marker[3] || marker[2], success: true, output: '' });
+                continue;
+            }
+            const step = steps[steps.length - 1];
+            if (!step) continue;
+            // Drop Vagrant's "    default: " prefix
+            const trimmed = line.replace(/^(==> |\s+)/, '');
+            const text = trimmed.startsWith(prefix) ? trimmed.slice(prefix.length) : line;
+            step.output = step.output ? `${step.output}\n${text}` : text;
+        }
+        return steps;
+    }
 
     // ========================================
     // OBSERVABILITY TOOLS
@@ -681,8 +1157,8 @@ end
         createdAt: string;
         message: string;
     }> {
-        const vmDir = path.join(this.vmsDir, name);
-        if (!fs.existsSync(vmDir)) {
+        const ref = this.machineRef(name);
+        if (ref.kind !== 'managed') {
             throw new Error(`VM ${name} not found`);
         }
 
@@ -690,7 +1166,7 @@ end
         const sanitizedSnapshotName = snapshotName.replace(/[^a-zA-Z0-9_-]/g, '_');
 
         try {
-            await execa('vagrant', ['snapshot', 'save', sanitizedSnapshotName], { cwd: vmDir });
+            await this.backend.snapshotSave(ref, sanitizedSnapshotName);
             logger.info(`Snapshot '${sanitizedSnapshotName}' created for VM ${name}`);
 
             return {
@@ -725,15 +1201,15 @@ end
         restoredAt: string;
         message: string;
     }> {
-        const vmDir = path.join(this.vmsDir, name);
-        if (!fs.existsSync(vmDir)) {
+        const ref = this.machineRef(name);
+        if (ref.kind !== 'managed') {
             throw new Error(`VM ${name} not found`);
         }
 
         const sanitizedSnapshotName = snapshotName.replace(/[^a-zA-Z0-9_-]/g, '_');
 
         try {
-            await execa('vagrant', ['snapshot', 'restore', sanitizedSnapshotName], { cwd: vmDir });
+            await this.backend.snapshotRestore(ref, sanitizedSnapshotName);
             logger.info(`VM ${name} restored to snapshot '${sanitizedSnapshotName}'`);
 
             return {
@@ -765,28 +1241,13 @@ end
         vmName: string;
         count: number;
     }> {
-        const vmDir = path.join(this.vmsDir, name);
-        if (!fs.existsSync(vmDir)) {
+        const ref = this.machineRef(name);
+        if (ref.kind !== 'managed') {
             throw new Error(`VM ${name} not found`);
         }
 
         try {
-            const result = await execa('vagrant', ['snapshot', 'list'], { cwd: vmDir });
-
-            // Parse the output - each line is a snapshot name
-            // Handle "No snapshots have been taken yet!" message
-            const output = result.stdout.trim();
-            if (output.includes('No snapshots') || output.length === 0) {
-                return {
-                    snapshots: [],
-                    vmName: name,
-                    count: 0
-                };
-            }
-
-            const snapshots = output.split('\n')
-                .map(s => s.trim())
-                .filter(s => s.length > 0 && !s.startsWith('==>') && !s.startsWith('Listing contents'));
+            const snapshots = await this.backend.snapshotList(ref);
 
             return {
                 snapshots,
@@ -815,15 +1276,15 @@ end
         vmName: string;
         message: string;
     }> {
-        const vmDir = path.join(this.vmsDir, name);
-        if (!fs.existsSync(vmDir)) {
+        const ref = this.machineRef(name);
+        if (ref.kind !== 'managed') {
             throw new Error(`VM ${name} not found`);
         }
 
         const sanitizedSnapshotName = snapshotName.replace(/[^a-zA-Z0-9_-]/g, '_');
 
         try {
-            await execa('vagrant', ['snapshot', 'delete', sanitizedSnapshotName], { cwd: vmDir });
+            await this.backend.snapshotDelete(ref, sanitizedSnapshotName);
             logger.info(`Snapshot '${sanitizedSnapshotName}' deleted for VM ${name}`);
 
             return {
@@ -848,17 +1309,15 @@ end
      * @returns Path to the screenshot file (caller is responsible for cleanup)
      */
     async takeScreenshot(name: string): Promise<string> {
-        const vbox = await this.getVBoxManage();
         const screenshotDir = path.join(os.tmpdir(), 'mcp-screenshots');
         if (!fs.existsSync(screenshotDir)) {
             fs.mkdirSync(screenshotDir, { recursive: true });
         }
         const timestamp = new Date().getTime();
-        const filename = `screenshot-${name}-${timestamp}.png`;
+        const filename = `screenshot-${name.replace(/\//g, '-')}-${timestamp}.png`;
         const hostPath = path.join(screenshotDir, filename);
 
-        // VBoxManage controlvm <vm> screenshotpng <path>
-        await execa(vbox, ['controlvm', name, 'screenshotpng', hostPath]);
+        await this.backend.screenshot(this.machineRef(name), hostPath);
 
         // Return the file path - caller handles reading and cleanup
         return hostPath;
@@ -1022,6 +1481,8 @@ end
         protocol: string;
         process?: string;
         pid?: number;
+        /** NAT rule forwarding a host port to this guest port, if any */
+        forwardedBy?: PortForwardRule;
         message: string;
     }> {
         // Use ss command for modern Linux, fallback to netstat
@@ -1029,12 +1490,24 @@ end
         const result = await this.executeCommand(name, checkCmd, options);
         const output = result.stdout.trim();
 
+        let forwardedBy: PortForwardRule | undefined;
+        try {
+            const rules = await this.backend.listPortForwards(this.machineRef(name));
+            forwardedBy = rules.find(r => r.guestPort === port && r.protocol === 'tcp');
+        } catch (error) {
+            logger.debug(`Could not read port forwards of ${name}: ${error}`);
+        }
+        const forwarding = forwardedBy
+            ? ` (forwarded from host port ${forwardedBy.hostPort} by rule '${forwardedBy.name}')`
+            : ' (no port forward)';
+
         if (output === 'PORT_NOT_FOUND' || output.length === 0) {
             return {
                 listening: false,
                 port,
                 protocol: 'tcp',
-                message: `Port ${port} is not listening`
+                forwardedBy,
+                message: `Port ${port} is not listening${forwarding}`
             };
         }
 
@@ -1060,7 +1533,8 @@ end
             protocol: 'tcp',
             process,
             pid,
-            message: process ? `Port ${port} is listening (process: ${process}, pid: ${pid})` : `Port ${port} is listening`
+            forwardedBy,
+            message: (process ? `Port ${port} is listening (process: ${process}, pid: ${pid})` : `Port ${port} is listening`) + forwarding
         };
     }
 
@@ -1134,6 +1608,244 @@ end
         });
     }
 
+    // ========================================
+    // PORT FORWARDING TOOLS
+    // ========================================
+
+    /**
+     * Name Vagrant gives the NAT rule of a forwarded port (its `id`, or e.g. 'tcp3000')
+     */
+    private forwardRuleName(port: ForwardedPort): string {
+        return port.id || `${port.protocol || 'tcp'}${port.guest}`;
+    }
+
+    /**
+     * Settings of a managed VM's Vagrantfile, or of its define block for environment machines
+     */
+    private readMachineSettings(ref: MachineRef): MachineSettings | undefined {
+        if (ref.kind !== 'managed') return undefined;
+        const model = readVagrantfile(ref.directory);
+        const machine = ref.machine ? model?.machines?.find(m => m.name === ref.machine) : undefined;
+        return machine || model;
+    }
+
+    /**
+     * Lists NAT port forwards of a VM: rules active in VirtualBox and, for
+     * managed VMs, ports declared in the Vagrantfile
+     * @param name - VM name
+     * @returns Rules with where each one is defined
+     */
+    async listPortForwards(name: string): Promise<{
+        vmName: string;
+        rules: Array<PortForwardRule & { active: boolean; persisted: boolean }>;
+    }> {
+        const ref = this.machineRef(name);
+        const status = await this.getVMStatus(name);
+        const live = status !== 'not_created' ? await this.backend.listPortForwards(ref) : [];
+        const configured = this.readMachineSettings(ref)?.forwardedPorts || [];
+
+        const rules = live.map(rule => ({
+            ...rule,
+            active: true,
+            persisted: configured.some(p => this.forwardRuleName(p) === rule.name)
+        }));
+        for (const port of configured) {
+            const ruleName = this.forwardRuleName(port);
+            if (rules.some(r => r.name === ruleName)) continue;
+            rules.push({
+                name: ruleName,
+                protocol: port.protocol || 'tcp',
+                hostIp: port.hostIp,
+                hostPort: port.host,
+                guestPort: port.guest,
+                active: false,
+                persisted: true
+            });
+        }
+
+        return { vmName: name, rules };
+    }
+
+    /**
+     * Forwards a host port to a guest port. Applied immediately through
+     * VirtualBox and, for managed VMs, written to the Vagrantfile so the
+     * next `vagrant up`/`reload` keeps it.
+     * @param name - VM name
+     * @param options - Ports, protocol and optional rule name
+     * @returns The rule and where it was applied
+     */
+    async addPortForward(name: string, options: {
+        guestPort: number;
+        hostPort: number;
+        protocol?: 'tcp' | 'udp';
+        hostIp?: string;
+        ruleName?: string;
+    }): Promise<{
+        success: boolean;
+        vmName: string;
+        rule: PortForwardRule;
+        applied: boolean;
+        persisted: boolean;
+        message: string;
+    }> {
+        const ref = this.machineRef(name);
+        const protocol = options.protocol || 'tcp';
+        const rule: PortForwardRule = {
+            name: options.ruleName || `${protocol}${options.guestPort}`,
+            protocol,
+            hostIp: options.hostIp,
+            hostPort: options.hostPort,
+            guestPort: options.guestPort
+        };
+
+        const status = await this.getVMStatus(name);
+        if (status === 'not_created' && ref.kind !== 'managed') {
+            throw new Error(`VM ${name} not found`);
+        }
+
+        let applied = false;
+        try {
+            if (status !== 'not_created') {
+                const existing = await this.backend.listPortForwards(ref);
+                const clash = existing.find(r => r.name === rule.name)
+                    || existing.find(r => r.hostPort === rule.hostPort && r.protocol === rule.protocol);
+                if (clash) {
+                    return {
+                        success: false,
+                        vmName: name,
+                        rule,
+                        applied: false,
+                        persisted: false,
+                        message: clash.name === rule.name
+                            ? `Rule '${rule.name}' already exists (host ${clash.hostPort} -> guest ${clash.guestPort})`
+                            : `Host port ${rule.hostPort}/${protocol} is already forwarded by rule '${clash.name}'`
+                    };
+                }
+            }
+
+            // Ports owned by other VMs or held by host processes are moved to free ones
+            const [allocation] = await this.ports.allocate(name, [{ guest: rule.guestPort, host: rule.hostPort, protocol }]);
+            rule.hostPort = allocation.hostPort;
+
+            if (status !== 'not_created') {
+                await this.backend.addPortForward(ref, rule);
+                applied = true;
+            }
+
+            const persisted = this.editVagrantfile(name, settings => {
+                settings.forwardedPorts = settings.forwardedPorts.filter(p => this.forwardRuleName(p) !== rule.name);
+                settings.forwardedPorts.push({
+                    guest: rule.guestPort,
+                    host: rule.hostPort,
+                    protocol: protocol === 'udp' ? 'udp' : undefined,
+                    id: rule.name,
+                    hostIp: rule.hostIp
+                });
+            });
+
+            return {
+                success: true,
+                vmName: name,
+                rule,
+                applied,
+                persisted,
+                message: `Forwarding host ${rule.hostIp || '*'}:${rule.hostPort} -> guest ${rule.guestPort}/${protocol} (rule '${rule.name}')` +
+                    (rule.hostPort !== options.hostPort ? `; host port ${options.hostPort} was taken` : '') +
+                    (applied ? '' : '; takes effect on next boot')
+            };
+        } catch (error: any) {
+            logger.error(`Failed to add port forward for ${name}`, error);
+            if (!applied) await this.ports.release(name, rule.hostPort, protocol);
+            return {
+                success: false,
+                vmName: name,
+                rule,
+                applied,
+                persisted: false,
+                message: error.stderr || error.message || 'Failed to add port forward'
+            };
+        }
+    }
+
+    /**
+     * Lists host ports claimed by managed VMs
+     * @param name - Only the ports of this VM
+     * @returns Allocations with requested and assigned host ports
+     */
+    listHostPorts(name?: string): PortAllocation[] {
+        return this.ports.list(name);
+    }
+
+    /**
+     * Removes a port forward by rule name or guest port, from VirtualBox
+     * and from the Vagrantfile of managed VMs
+     * @param name - VM name
+     * @param selector - Rule name, or guest port (and protocol)
+     * @returns Names of the removed rules
+     */
+    async removePortForward(name: string, selector: { ruleName?: string; guestPort?: number; protocol?: 'tcp' | 'udp' }): Promise<{
+        success: boolean;
+        vmName: string;
+        removed: string[];
+        message: string;
+    }> {
+        if (!selector.ruleName && selector.guestPort === undefined) {
+            throw new Error('Specify rule_name or guest_port');
+        }
+
+        const protocol = selector.protocol || 'tcp';
+        const matches = (ruleName: string, guestPort: number, ruleProtocol: string) => selector.ruleName
+            ? ruleName === selector.ruleName
+            : guestPort === selector.guestPort && ruleProtocol === protocol;
+
+        const ref = this.machineRef(name);
+        const removed = new Set<string>();
+        const freed: { hostPort: number; protocol: 'tcp' | 'udp' }[] = [];
+        try {
+            const status = await this.getVMStatus(name);
+            if (status !== 'not_created') {
+                for (const rule of await this.backend.listPortForwards(ref)) {
+                    if (matches(rule.name, rule.guestPort, rule.protocol)) {
+                        await this.backend.removePortForward(ref, rule.name);
+                        removed.add(rule.name);
+                        freed.push({ hostPort: rule.hostPort, protocol: rule.protocol });
+                    }
+                }
+            }
+
+            this.editVagrantfile(name, settings => {
+                settings.forwardedPorts = settings.forwardedPorts.filter(p => {
+                    const ruleName = this.forwardRuleName(p);
+                    if (!matches(ruleName, p.guest, p.protocol || 'tcp')) return true;
+                    removed.add(ruleName);
+                    freed.push({ hostPort: p.host, protocol: p.protocol || 'tcp' });
+                    return false;
+                });
+            });
+        } catch (error: any) {
+            logger.error(`Failed to remove port forward for ${name}`, error);
+            return {
+                success: false,
+                vmName: name,
+                removed: Array.from(removed),
+                message: error.stderr || error.message || 'Failed to remove port forward'
+            };
+        }
+        for (const port of freed) {
+            await this.ports.release(name, port.hostPort, port.protocol);
+        }
+
+        const target = selector.ruleName ? `rule '${selector.ruleName}'` : `guest port ${selector.guestPort}/${protocol}`;
+        return {
+            success: removed.size > 0,
+            vmName: name,
+            removed: Array.from(removed),
+            message: removed.size > 0
+                ? `Removed ${Array.from(removed).join(', ')} from ${name}`
+                : `No port forward matches ${target} on ${name}`
+        };
+    }
+
     /**
      * Gets resource usage (CPU, RAM, Disk) for a VM
      * @param name - VM name
@@ -1221,6 +1933,42 @@ end
         };
     }
 
+    /**
+     * Runs a change that needs the VM powered off. A running VM is halted
+     * first and booted again afterwards, also when the change fails.
+     * @returns The change's result and whether the VM was restarted
+     */
+    private async withVMHalted<T>(name: string, change: () => Promise<T>): Promise<{ result: T; restarted: boolean }> {
+        const wasRunning = await this.getVMStatus(name) === 'running';
+        if (wasRunning) {
+            logger.info(`Halting ${name}...`);
+            const halted = await this.haltVM(name);
+            if (!halted.success) {
+                throw new Error(halted.message);
+            }
+        }
+
+        let result: T;
+        try {
+            result = await change();
+        } catch (error) {
+            if (wasRunning) {
+                try {
+                    await this.startVM(name);
+                } catch (e) {
+                    logger.error(`Failed to restart ${name} after modification error`, e);
+                }
+            }
+            throw error;
+        }
+
+        if (wasRunning) {
+            logger.info(`Restarting ${name}...`);
+            await this.startVM(name);
+        }
+        return { result, restarted: wasRunning };
+    }
+
     /**
      * Modifies VM resources (CPU, RAM, GUI mode)
      * @param name - VM name
@@ -1233,61 +1981,37 @@ end
         requiresReboot: boolean;
         message: string;
     }> {
-        const vbox = await this.getVBoxManage();
         const changes: string[] = [];
         let requiresReboot = false;
 
-        // Check current VM state
-        const status = await this.getVMStatus(name);
-        const wasRunning = status === 'running';
-
-        // If VM is running, we need to halt it first for most changes
-        if (wasRunning && (options.cpu !== undefined || options.memory !== undefined)) {
-            logger.info(`Halting ${name} to modify resources...`);
-            await this.haltVM(name);
-            requiresReboot = true;
-        }
-
         try {
-            // Modify CPU count
-            if (options.cpu !== undefined && options.cpu > 0) {
-                await execa(vbox, ['modifyvm', name, '--cpus', String(options.cpu)]);
-                changes.push(`CPU cores set to ${options.cpu}`);
-            }
-
-            // Modify memory
-            if (options.memory !== undefined && options.memory > 0) {
-                await execa(vbox, ['modifyvm', name, '--memory', String(options.memory)]);
-                changes.push(`Memory set to ${options.memory}MB`);
-            }
-
-            // Modify GUI mode (can be done while running for some cases)
+            // Modify GUI mode; takes effect on the next boot
             if (options.gui_mode !== undefined) {
                 // Update Vagrantfile if this is a managed VM
-                const vmDir = path.join(this.vmsDir, name);
-                if (fs.existsSync(vmDir)) {
-                    const vagrantfilePath = path.join(vmDir, 'Vagrantfile');
-                    if (fs.existsSync(vagrantfilePath)) {
-                        let content = fs.readFileSync(vagrantfilePath, 'utf8');
-                        const guiValue = options.gui_mode ? 'true' : 'false';
-                        if (content.includes('vb.gui =')) {
-                            content = content.replace(/vb\.gui\s*=\s*(true|false)/, `vb.gui = ${guiValue}`);
-                        } else {
-                            content = content.replace(/config\.vm\.provider\s+"virtualbox"\s+do\s+\|vb\|/, (match) => {
-                                return `${match}\n    vb.gui = ${guiValue}`;
-                            });
-                        }
-                        fs.writeFileSync(vagrantfilePath, content);
-                    }
-                }
+                this.editVagrantfile(name, model => { model.provider.gui = options.gui_mode; });
                 changes.push(`GUI mode set to ${options.gui_mode ? 'enabled' : 'disabled'}`);
                 requiresReboot = true;
             }
 
-            // Restart VM if it was running
-            if (wasRunning && requiresReboot) {
-                logger.info(`Restarting ${name}...`);
-                await this.startVM(name);
+            // CPU and memory can only change while the VM is powered off
+            if (options.cpu !== undefined || options.memory !== undefined) {
+                const { restarted } = await this.withVMHalted(name, async () => {
+                    // Modify CPU count
+                    if (options.cpu !== undefined && options.cpu > 0) {
+                        await this.backend.modifyVM(this.machineRef(name), { cpus: options.cpu });
+                        // Persist so the next `vagrant up`/`reload` does not revert it
+                        this.editVagrantfile(name, model => { model.provider.cpus = options.cpu; });
+                        changes.push(`CPU cores set to ${options.cpu}`);
+                    }
+
+                    // Modify memory
+                    if (options.memory !== undefined && options.memory > 0) {
+                        await this.backend.modifyVM(this.machineRef(name), { memory: options.memory });
+                        this.editVagrantfile(name, model => { model.provider.memory = options.memory; });
+                        changes.push(`Memory set to ${options.memory}MB`);
+                    }
+                });
+                requiresReboot = requiresReboot || restarted;
             }
 
             return {
@@ -1299,15 +2023,6 @@ end
                     : 'No changes applied'
             };
         } catch (error: any) {
-            // Try to restart VM if we halted it
-            if (wasRunning && requiresReboot) {
-                try {
-                    await this.startVM(name);
-                } catch (e) {
-                    logger.error(`Failed to restart ${name} after modification error`, e);
-                }
-            }
-
             return {
                 success: false,
                 changes,
@@ -1329,14 +2044,14 @@ end
         sizeBytes: number;
         message: string;
     }> {
-        const vmDir = path.join(this.vmsDir, name);
+        const ref = this.machineRef(name);
 
-        if (!fs.existsSync(vmDir)) {
+        if (ref.kind !== 'managed') {
             throw new Error(`VM ${name} not found. Only Vagrant-managed VMs can be packaged.`);
         }
 
         // Determine output path
-        const outputPath = outputFile || path.join(vmDir, `${name}.box`);
+        const outputPath = outputFile || path.join(ref.directory, `${virtualBoxName(ref)}.box`);
 
         // Ensure parent directory exists
         const outputDir = path.dirname(outputPath);
@@ -1359,10 +2074,7 @@ end
 
             // Run vagrant package
             logger.info(`Packaging ${name} to ${outputPath}...`);
-            await execa('vagrant', ['package', '--output', outputPath], {
-                cwd: vmDir,
-                timeout: 600000 // 10 minute timeout for large VMs
-            });
+            await this.backend.packageBox(ref, outputPath);
 
             // Get file size
             const stats = fs.statSync(outputPath);
@@ -1384,4 +2096,636 @@ end
             };
         }
     }
+
+    /**
+     * Vagrantfile for a standalone clone of a managed VM. Environment
+     * machines are flattened: the environment's shared settings and the
+     * machine's define block become the clone's top-level configuration.
+     */
+    private cloneVagrantfileModel(ref: MachineRef, cloneName: string): VagrantfileModel | undefined {
+        if (ref.kind !== 'managed') return undefined;
+        const source = readVagrantfile(ref.directory);
+        if (!source) return undefined;
+
+        const definition = ref.machine ? source.machines?.find(m => m.name === ref.machine) : undefined;
+        const model: VagrantfileModel = {
+            ...createVagrantfileModel(definition?.box || source.box),
+            boxVersion: definition?.boxVersion || source.boxVersion,
+            hostname: definition?.hostname || source.hostname,
+            provider: { ...source.provider, ...definition?.provider, name: cloneName },
+            forwardedPorts: [...source.forwardedPorts, ...(definition?.forwardedPorts || [])],
+            networks: [...source.networks, ...(definition?.networks || [])],
+            syncedFolders: [...source.syncedFolders, ...(definition?.syncedFolders || [])],
+            provisioners: [...source.provisioners, ...(definition?.provisioners || [])],
+            extraStatements: [...(source.extraStatements || []), ...(definition?.extraStatements || [])],
+            sectionOrder: source.sectionOrder
+        };
+        if (model.hostname) model.hostname = cloneName.replace(/_/g, '-');
+        return model;
+    }
+
+    /**
+     * Clones a VM with `VBoxManage clonevm`. Clones of managed VMs get
+     * their own project directory and Vagrantfile under vmsDir, pointing
+     * Vagrant at the cloned machine. Forwarded host ports of the clone are
+     * moved to free ones so it can run next to its source.
+     * @param name - Source VM name
+     * @param cloneName - Name of the new VM
+     * @param options - Snapshot to clone from; linked shares the snapshot's disks
+     * @returns The clone with its host port mapping
+     */
+    async cloneVM(name: string, cloneName: string, options: { snapshot?: string; linked?: boolean } = {}): Promise<{
+        success: boolean;
+        source: string;
+        clone: string;
+        linked: boolean;
+        snapshot?: string;
+        managedBy: 'vagrant' | 'native';
+        directory?: string;
+        ports: PortAllocation[];
+        state: VMStatus;
+        message: string;
+    }> {
+        validateVMName(cloneName);
+        if (options.linked && !options.snapshot) {
+            throw new Error('Linked clones are created from a snapshot; specify snapshot_name');
+        }
+        if (fs.existsSync(path.join(this.vmsDir, cloneName)) || (await this.listVMs()).some(vm => vm.name === cloneName)) {
+            throw new Error(`VM ${cloneName} already exists`);
+        }
+
+        const ref = this.machineRef(name);
+        if (await this.getVMStatus(name) === 'not_created') {
+            throw new Error(`VM ${name} not found`);
+        }
+        if (options.snapshot && ref.kind === 'managed') {
+            const snapshots = await this.backend.snapshotList(ref);
+            if (!snapshots.includes(options.snapshot)) {
+                const candidate = closestMatch(options.snapshot, snapshots);
+                const suggestion = candidate ? `. Did you mean '${candidate}'?` : '';
+                throw new Error(`Snapshot '${options.snapshot}' not found for VM ${name}${suggestion}`);
+            }
+        }
+
+        const result = {
+            source: name,
+            clone: cloneName,
+            linked: !!options.linked,
+            snapshot: options.snapshot,
+            managedBy: ref.kind === 'managed' ? 'vagrant' as const : 'native' as const
+        };
+
+        let id: string;
+        try {
+            logger.info(`Cloning ${name} to ${cloneName}${options.linked ? ' (linked)' : ''}...`);
+            id = await this.backend.cloneVM(ref, cloneName, { snapshot: options.snapshot, linked: options.linked });
+        } catch (error: any) {
+            logger.error(`Failed to clone ${name}`, error);
+            return {
+                success: false,
+                ...result,
+                ports: [],
+                state: 'not_created',
+                message: error.stderr || error.message || 'Failed to clone VM'
+            };
+        }
+
+        let cloneRef: MachineRef = { kind: 'native', name: cloneName };
+        const model = this.cloneVagrantfileModel(ref, cloneName);
+        if (ref.kind === 'managed' && model) {
+            const cloneDir = path.join(this.vmsDir, cloneName);
+            const machineDir = path.join(cloneDir, '.vagrant', 'machines', 'default', 'virtualbox');
+            fs.mkdirSync(machineDir, { recursive: true });
+            writeVagrantfile(cloneDir, model);
+            // Vagrant adopts an existing VirtualBox VM through its id file
+            fs.writeFileSync(path.join(machineDir, 'id'), id);
+            // The clone's authorized_keys still hold the key Vagrant inserted into the source
+            const sourceKey = path.join(ref.directory, '.vagrant', 'machines', ref.machine || 'default', 'virtualbox', 'private_key');
+            if (fs.existsSync(sourceKey)) {
+                fs.copyFileSync(sourceKey, path.join(machineDir, 'private_key'));
+            }
+            cloneRef = { kind: 'managed', name: cloneName, directory: cloneDir };
+        }
+
+        // VirtualBox copies the NAT rules; move their host ports off the source's.
+        // Vagrant re-assigns the ssh port itself on boot.
+        const rules = (await this.backend.listPortForwards(cloneRef))
+            .filter(rule => cloneRef.kind === 'native' || rule.name !== 'ssh');
+        const requests = rules.map(rule => ({ guest: rule.guestPort, host: rule.hostPort, protocol: rule.protocol }));
+        // Ports declared in the Vagrantfile but not active on the source yet
+        for (const port of model?.forwardedPorts || []) {
+            const protocol = port.protocol || 'tcp';
+            if (!requests.some(r => r.guest === port.guest && r.protocol === protocol)) {
+                requests.push({ guest: port.guest, host: port.host, protocol });
+            }
+        }
+        const ports = await this.ports.allocate(cloneName, requests, { avoid: requests.map(r => r.host) });
+        for (const [i, rule] of rules.entries()) {
+            await this.backend.removePortForward(cloneRef, rule.name);
+            await this.backend.addPortForward(cloneRef, { ...rule, hostPort: ports[i].hostPort });
+        }
+        this.editVagrantfile(cloneName, settings => {
+            for (const port of settings.forwardedPorts) {
+                const allocation = ports.find(a => a.guestPort === port.guest && a.protocol === (port.protocol || 'tcp'));
+                if (allocation) port.host = allocation.hostPort;
+            }
+        });
+
+        const staticIps = model?.networks.filter(n => n.ip && !n.dhcp).map(n => n.ip) || [];
+        return {
+            success: true,
+            ...result,
+            directory: cloneRef.kind === 'managed' ? cloneRef.directory : undefined,
+            ports,
+            state: await this.getVMStatus(cloneName),
+            message: `Cloned ${name} to ${cloneName}` +
+                (options.snapshot ? ` from snapshot '${options.snapshot}'` : '') +
+                (options.linked ? ' (linked clone)' : '') +
+                (ports.length > 0 ? `; host ports ${ports.map(p => `${p.requestedPort} -> ${p.hostPort}`).join(', ')}` : '') +
+                (staticIps.length > 0 ? `; static IPs ${staticIps.join(', ')} were copied from the source, change them before running both` : '')
+        };
+    }
+
+    // ========================================
+    // DISK TOOLS
+    // ========================================
+
+    /**
+     * Finds an attached disk by image path or file name
+     */
+    private findDisk(disks: VMDisk[], name: string, selector: string): VMDisk {
+        const disk = disks.find(d => d.path === selector) || disks.find(d => path.basename(d.path) === selector);
+        if (!disk) {
+            const candidate = closestMatch(selector, disks.map(d => path.basename(d.path)));
+            const suggestion = candidate ? `. Did you mean '${candidate}'?` : '';
+            throw new Error(`Disk '${selector}' is not attached to VM ${name}${suggestion}`);
+        }
+        return disk;
+    }
+
+    /**
+     * Grows a VM disk. The VM is halted for the resize and restarted if it
+     * was running; for the primary disk the guest partition and root
+     * filesystem are then expanded. Calling it again with the current size
+     * only expands the guest side.
+     * @param name - VM name
+     * @param options - New size in GB, disk (default: primary), guest credentials for native VMs
+     * @returns Old and new size and whether the guest filesystem was grown
+     */
+    async resizeDisk(name: string, options: VMCredentials & { sizeGB: number; disk?: string }): Promise<{
+        success: boolean;
+        vmName: string;
+        disk: VMDisk;
+        previousSizeMB?: number;
+        sizeMB: number;
+        filesystemExpanded: boolean;
+        restarted: boolean;
+        message: string;
+    }> {
+        await this.requireState(name);
+        const ref = this.machineRef(name);
+        const disks = await this.backend.listDisks(ref);
+        if (disks.length === 0) {
+            throw new Error(`VM ${name} has no hard disks`);
+        }
+        const disk = options.disk ? this.findDisk(disks, name, options.disk) : disks[0];
+        const isPrimary = disk === disks[0];
+        const sizeMB = Math.round(options.sizeGB * 1024);
+        if (disk.sizeMB !== undefined && sizeMB < disk.sizeMB) {
+            throw new Error(`Disks can only grow: ${path.basename(disk.path)} is ${disk.sizeMB}MB, requested ${sizeMB}MB`);
+        }
+
+        let resized = disk;
+        let restarted = false;
+        try {
+            if (disk.sizeMB !== sizeMB) {
+                logger.info(`Resizing ${disk.path} of ${name} to ${sizeMB}MB...`);
+                const change = await this.withVMHalted(name, () => this.backend.resizeDisk(ref, disk, sizeMB));
+                resized = { ...disk, path: change.result, format: 'VDI', sizeMB };
+                restarted = change.restarted;
+            }
+        } catch (error: any) {
+            logger.error(`Failed to resize disk of ${name}`, error);
+            return {
+                success: false,
+                vmName: name,
+                disk,
+                previousSizeMB: disk.sizeMB,
+                sizeMB: disk.sizeMB ?? 0,
+                filesystemExpanded: false,
+                restarted: false,
+                message: error.stderr || error.message || 'Failed to resize disk'
+            };
+        }
+
+        const growth = `${path.basename(resized.path)} is ${sizeMB}MB` +
+            (disk.sizeMB !== undefined && disk.sizeMB !== sizeMB ? ` (was ${disk.sizeMB}MB)` : '');
+        if (!isPrimary) {
+            return {
+                success: true,
+                vmName: name,
+                disk: resized,
+                previousSizeMB: disk.sizeMB,
+                sizeMB,
+                filesystemExpanded: false,
+                restarted,
+                message: `${growth}; grow the partition on this data disk inside the guest to use the space`
+            };
+        }
+        if (await this.getVMStatus(name) !== 'running') {
+            return {
+                success: true,
+                vmName: name,
+                disk: resized,
+                previousSizeMB: disk.sizeMB,
+                sizeMB,
+                filesystemExpanded: false,
+                restarted,
+                message: `${growth}; start the VM and run resize_disk again to grow the root filesystem`
+            };
+        }
+
+        const grow = await this.executeCommand(name, GROW_ROOT_FILESYSTEM_SCRIPT, {
+            username: options.username,
+            password: options.password,
+            timeout: 600000
+        });
+        const filesystemExpanded = grow.exitCode === 0;
+        return {
+            success: filesystemExpanded,
+            vmName: name,
+            disk: resized,
+            previousSizeMB: disk.sizeMB,
+            sizeMB,
+            filesystemExpanded,
+            restarted,
+            message: filesystemExpanded
+                ? `${growth}; root filesystem is now ${grow.stdout.trim().split('\n').pop()}`
+                : `${growth}, but growing the root filesystem failed: ${grow.stderr || grow.stdout}`
+        };
+    }
+
+    /**
+     * Attaches an extra data disk, creating a new VDI image if needed. The
+     * VM is halted for the change and restarted if it was running.
+     * @param name - VM name
+     * @param options - Size in GB for a new image, image path (default: in the VM's directory), controller and port
+     * @returns The attached disk
+     */
+    async attachDisk(name: string, options: { sizeGB?: number; path?: string; controller?: string; port?: number }): Promise<{
+        success: boolean;
+        vmName: string;
+        disk?: VMDisk;
+        created: boolean;
+        restarted: boolean;
+        message: string;
+    }> {
+        await this.requireState(name);
+        const ref = this.machineRef(name);
+        const disks = await this.backend.listDisks(ref);
+
+        let imagePath = options.path;
+        if (!imagePath) {
+            if (ref.kind !== 'managed') {
+                throw new Error(`Specify a disk image path for VM ${name}, which is not managed by Vagrant`);
+            }
+            let index = disks.length;
+            do {
+                imagePath = path.join(ref.directory, 'disks', `${virtualBoxName(ref)}-data${index}.vdi`);
+                index++;
+            } while (fs.existsSync(imagePath));
+        }
+        imagePath = path.resolve(imagePath);
+        if (disks.some(d => d.path === imagePath)) {
+            throw new Error(`Disk ${imagePath} is already attached to VM ${name}`);
+        }
+
+        const created = !fs.existsSync(imagePath);
+        if (created && !options.sizeGB) {
+            throw new Error(`Disk image ${imagePath} does not exist; specify size_gb to create it`);
+        }
+
+        try {
+            const { result: disk, restarted } = await this.withVMHalted(name, () => this.backend.attachDisk(ref, {
+                path: imagePath as string,
+                sizeMB: options.sizeGB ? Math.round(options.sizeGB * 1024) : undefined,
+                controller: options.controller,
+                port: options.port
+            }));
+            return {
+                success: true,
+                vmName: name,
+                disk,
+                created,
+                restarted,
+                message: `${created ? 'Created and attached' : 'Attached'} ${imagePath} to ${name} (${disk.controller} port ${disk.port}); ` +
+                    'partition and mount it inside the guest to use it'
+            };
+        } catch (error: any) {
+            logger.error(`Failed to attach disk to ${name}`, error);
+            return {
+                success: false,
+                vmName: name,
+                created: false,
+                restarted: false,
+                message: error.stderr || error.message || 'Failed to attach disk'
+            };
+        }
+    }
+
+    /**
+     * Detaches a data disk. The primary disk cannot be detached. The VM is
+     * halted for the change and restarted if it was running.
+     * @param name - VM name
+     * @param options - Disk image path or file name; deleteImage also deletes the image
+     * @returns The detached disk
+     */
+    async detachDisk(name: string, options: { disk: string; deleteImage?: boolean }): Promise<{
+        success: boolean;
+        vmName: string;
+        disk: VMDisk;
+        deleted: boolean;
+        restarted: boolean;
+        message: string;
+    }> {
+        await this.requireState(name);
+        const ref = this.machineRef(name);
+        const disks = await this.backend.listDisks(ref);
+        const disk = this.findDisk(disks, name, options.disk);
+        if (disk === disks[0]) {
+            throw new Error(`${path.basename(disk.path)} is the primary disk of ${name} and cannot be detached`);
+        }
+
+        try {
+            const { restarted } = await this.withVMHalted(name, () =>
+                this.backend.detachDisk(ref, disk, { deleteImage: options.deleteImage }));
+            return {
+                success: true,
+                vmName: name,
+                disk,
+                deleted: !!options.deleteImage,
+                restarted,
+                message: `Detached ${disk.path} from ${name}${options.deleteImage ? ' and deleted the image' : ''}`
+            };
+        } catch (error: any) {
+            logger.error(`Failed to detach disk from ${name}`, error);
+            return {
+                success: false,
+                vmName: name,
+                disk,
+                deleted: false,
+                restarted: false,
+                message: error.stderr || error.message || 'Failed to detach disk'
+            };
+        }
+    }
+
+    // ========================================
+    // BOX TOOLS
+    // ========================================
+
+    /**
+     * Boxes referenced by managed VMs, mapped to the VMs using them
+     */
+    private boxUsers(): Map<string, string[]> {
+        const users = new Map<string, string[]>();
+        for (const name of this.listManagedNames()) {
+            const ref = this.machineRef(name);
+            if (ref.kind !== 'managed') continue;
+            const model = readVagrantfile(ref.directory);
+            const definition = ref.machine ? model?.machines?.find(m => m.name === ref.machine) : undefined;
+            const box = definition?.box || model?.box;
+            if (!box) continue;
+            users.set(box, [...(users.get(box) || []), name]);
+        }
+        return users;
+    }
+
+    /**
+     * Orders box versions numerically part by part (1.10 > 1.9)
+     */
+    private compareBoxVersions(a: string, b: string): number {
+        const left = a.split('.');
+        const right = b.split('.');
+        for (let i = 0; i < Math.max(left.length, right.length); i++) {
+            const x = left[i] ?? '0';
+            const y = right[i] ?? '0';
+            const diff = /^\d+$/.test(x) && /^\d+$/.test(y) ? parseInt(x, 10) - parseInt(y, 10) : x.localeCompare(y);
+            if (diff !== 0) return diff;
+        }
+        return 0;
+    }
+
+    /**
+     * Lists the local box cache, grouped by box
+     * @returns Boxes with disk usage per version and the managed VMs using them
+     */
+    async listBoxes(): Promise<{
+        boxes: Array<{
+            name: string;
+            versions: Array<{ version: string; provider: string; sizeBytes: number }>;
+            totalBytes: number;
+            usedBy: string[];
+        }>;
+        totalBytes: number;
+    }> {
+        const users = this.boxUsers();
+        const grouped = new Map<string, VagrantBox[]>();
+        for (const box of await this.backend.listBoxes()) {
+            grouped.set(box.name, [...(grouped.get(box.name) || []), box]);
+        }
+
+        const boxes = Array.from(grouped, ([name, versions]) => ({
+            name,
+            versions: versions
+                .sort((a, b) => this.compareBoxVersions(b.version, a.version))
+                .map(v => ({ version: v.version, provider: v.provider, sizeBytes: v.sizeBytes })),
+            totalBytes: versions.reduce((sum, v) => sum + v.sizeBytes, 0),
+            usedBy: users.get(name) || []
+        }));
+
+        return { boxes, totalBytes: boxes.reduce((sum, b) => sum + b.totalBytes, 0) };
+    }
+
+    /**
+     * Adds a box to the local cache from a catalog name, URL or .box file
+     * (e.g. the output of packageVM)
+     * @param source - Catalog name, URL or path to a .box file
+     * @param options - Name (defaults to the file name for .box files), version, provider
+     * @returns The cached versions of the box afterwards
+     */
+    async addBox(source: string, options: {
+        name?: string;
+        version?: string;
+        provider?: string;
+        force?: boolean;
+        onOutput?: (chunk: OutputChunk) => void;
+    } = {}): Promise<{
+        success: boolean;
+        name: string;
+        versions: VagrantBox[];
+        message: string;
+    }> {
+        const isFile = fs.existsSync(source) && fs.statSync(source).isFile();
+        const name = options.name || (isFile ? path.basename(source, '.box') : source);
+
+        try {
+            logger.info(`Adding box ${name} from ${source}...`);
+            await this.backend.addBox(isFile ? path.resolve(source) : source, {
+                name: isFile || options.name ? name : undefined,
+                version: options.version,
+                provider: options.provider,
+                force: options.force,
+                onOutput: options.onOutput
+            });
+            const versions = (await this.backend.listBoxes()).filter(b => b.name === name);
+            return {
+                success: true,
+                name,
+                versions,
+                message: `Box ${name} added (${versions.map(v => `v${v.version}`).join(', ')})`
+            };
+        } catch (error: any) {
+            return {
+                success: false,
+                name,
+                versions: [],
+                message: error.stderr || error.message || 'Failed to add box'
+            };
+        }
+    }
+
+    /**
+     * Removes cached versions of a box. Refuses boxes used by managed VMs
+     * unless forced.
+     * @param name - Box name
+     * @param options - Version/provider to remove, or all versions
+     * @returns Removed versions and the disk space freed
+     */
+    async removeBox(name: string, options: {
+        version?: string;
+        provider?: string;
+        allVersions?: boolean;
+        force?: boolean;
+    } = {}): Promise<{
+        success: boolean;
+        removed: VagrantBox[];
+        freedBytes: number;
+        message: string;
+    }> {
+        const cached = (await this.backend.listBoxes()).filter(b => b.name === name
+            && (!options.provider || b.provider === options.provider)
+            && (options.allVersions || !options.version || b.version === options.version));
+        if (cached.length === 0) {
+            return { success: false, removed: [], freedBytes: 0, message: `Box ${name} is not in the local cache` };
+        }
+
+        const usedBy = this.boxUsers().get(name) || [];
+        if (usedBy.length > 0 && !options.force) {
+            return {
+                success: false,
+                removed: [],
+                freedBytes: 0,
+                message: `Box ${name} is used by ${usedBy.join(', ')}; pass force to remove it anyway`
+            };
+        }
+
+        try {
+            await this.backend.removeBox(name, options);
+        } catch (error: any) {
+            return {
+                success: false,
+                removed: [],
+                freedBytes: 0,
+                message: error.stderr || error.message || 'Failed to remove box'
+            };
+        }
+
+        const remaining = await this.backend.listBoxes();
+        const removed = cached.filter(c => !remaining.some(r =>
+            r.name === c.name && r.provider === c.provider && r.version === c.version));
+        const freedBytes = removed.reduce((sum, b) => sum + b.sizeBytes, 0);
+        return {
+            success: true,
+            removed,
+            freedBytes,
+            message: `Removed ${removed.map(b => `${b.name} v${b.version} (${b.provider})`).join(', ')}`
+        };
+    }
+
+    /**
+     * Checks cached boxes for newer catalog versions
+     * @returns Version status of every box
+     */
+    async outdatedBoxes(): Promise<{
+        boxes: BoxUpdateStatus[];
+        outdated: number;
+        message: string;
+    }> {
+        const boxes = await this.backend.outdatedBoxes();
+        const outdated = boxes.filter(b => b.outdated);
+        return {
+            boxes,
+            outdated: outdated.length,
+            message: outdated.length > 0
+                ? `${outdated.length} box(es) have updates: ${outdated.map(b => `${b.name} ${b.currentVersion} -> ${b.latestVersion}`).join(', ')}`
+                : 'All boxes are up to date'
+        };
+    }
+
+    /**
+     * Removes every cached version of a box except the newest one per
+     * provider. Versions Vagrant refuses to remove (e.g. still used by a
+     * machine) are skipped.
+     * @param options - dryRun only reports what would be removed
+     * @returns Removed and skipped versions with the disk space freed
+     */
+    async pruneBoxes(options: { dryRun?: boolean } = {}): Promise<{
+        success: boolean;
+        dryRun: boolean;
+        removed: VagrantBox[];
+        skipped: Array<VagrantBox & { reason: string }>;
+        freedBytes: number;
+        message: string;
+    }> {
+        const latest = new Map<string, VagrantBox>();
+        const boxes = await this.backend.listBoxes();
+        for (const box of boxes) {
+            const key = `${box.name}|${box.provider}`;
+            const current = latest.get(key);
+            if (!current || this.compareBoxVersions(box.version, current.version) > 0) {
+                latest.set(key, box);
+            }
+        }
+        const candidates = boxes.filter(b => latest.get(`${b.name}|${b.provider}`) !== b);
+
+        const removed: VagrantBox[] = [];
+        const skipped: Array<VagrantBox & { reason: string }> = [];
+        for (const box of candidates) {
+            if (options.dryRun) {
+                removed.push(box);
+                continue;
+            }
+            try {
+                await this.backend.removeBox(box.name, { version: box.version, provider: box.provider });
+                removed.push(box);
+            } catch (error: any) {
+                skipped.push({ ...box, reason: error.stderr || error.message || 'Failed to remove box' });
+            }
+        }
+
+        const freedBytes = removed.reduce((sum, b) => sum + b.sizeBytes, 0);
+        const freedMB = Math.round(freedBytes / (1024 * 1024) * 100) / 100;
+        return {
+            success: skipped.length === 0,
+            dryRun: !!options.dryRun,
+            removed,
+            skipped,
+            freedBytes,
+            message: removed.length === 0 && skipped.length === 0
+                ? 'No outdated box versions to prune'
+                : `${options.dryRun ? 'Would remove' : 'Removed'} ${removed.length} box version(s), ${freedMB}MB` +
+                    (skipped.length > 0 ? `; skipped ${skipped.length}` : '')
+        };
+    }
 }
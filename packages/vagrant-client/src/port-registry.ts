@@ -0,0 +1,227 @@
+/**
+ * HostPortRegistry - Host ports claimed by forwarded ports of managed VMs
+ *
+ * Every host port a VM forwards is recorded with its owner. When a VM asks
+ * for a port that another VM owns, or that some other process on the host
+ * is listening on, the registry hands out the next free port of its range
+ * instead. It never touches processes that hold ports.
+ */
+
+import { logger } from '@virtualbox-mcp/shared-utils';
+import * as fs from 'fs';
+import * as net from 'net';
+
+/**
+ * A host port owned by a VM
+ */
+export interface PortAllocation {
+    vmName: string;
+    guestPort: number;
+    hostPort: number;
+    /** Host port the VM asked for; differs from hostPort when it was taken */
+    requestedPort: number;
+    protocol: 'tcp' | 'udp';
+    allocatedAt: string;
+}
+
+/**
+ * A forwarded port a VM wants on the host
+ */
+export interface PortRequest {
+    guest: number;
+    host: number;
+    protocol?: 'tcp' | 'udp';
+}
+
+/**
+ * Range fallback ports are taken from
+ */
+export interface PortRange {
+    start: number;
+    end: number;
+}
+
+export const DEFAULT_PORT_RANGE: PortRange = { start: 10000, end: 19999 };
+
+/**
+ * Whether a value read from the registry file has the shape of an allocation
+ */
+function isPortAllocation(value: unknown): value is PortAllocation {
+    const allocation = value as Partial<PortAllocation> | null;
+    const isPort = (port: unknown) => Number.isInteger(port) && (port as number) >= 1 && (port as number) <= 65535;
+    return typeof allocation === 'object' && allocation !== null
+        && typeof allocation.vmName === 'string'
+        && isPort(allocation.guestPort)
+        && isPort(allocation.hostPort)
+        && isPort(allocation.requestedPort)
+        && (allocation.protocol === 'tcp' || allocation.protocol === 'udp')
+        && typeof allocation.allocatedAt === 'string';
+}
+
+/**
+ * Parses a range such as "20000-20999"
+ * @throws If the range is malformed
+ */
+export function parsePortRange(value: string): PortRange {
+    const match = value.trim().match(/^(\d+)\s*-\s*(\d+)$/);
+    const start = match ? parseInt(match[1], 10) : NaN;
+    const end = match ? parseInt(match[2], 10) : NaN;
+    if (!match || start < 1 || end > 65535 || start > end) {
+        throw new Error(`Invalid port range '${value}' (expected e.g. 20000-20999)`);
+    }
+    return { start, end };
+}
+
+/**
+ * Checks whether a host port can be bound on all interfaces,
+ * as VirtualBox does for forwarded ports
+ */
+function isHostPortFree(port: number, protocol: 'tcp' | 'udp'): Promise<boolean> {
+    // UDP forwards cannot be probed without sending traffic; rely on the registry
+    if (protocol === 'udp') return Promise.resolve(true);
+
+    return new Promise((resolve) => {
+        const server = net.createServer();
+        server.once('error', () => resolve(false));
+        server.once('listening', () => server.close(() => resolve(true)));
+        server.listen(port);
+    });
+}
+
+/**
+ * Persistent registry of host ports, stored as JSON
+ */
+export class HostPortRegistry {
+    /** Last queued allocate/release; they run one after another */
+    private queue: Promise<unknown> = Promise.resolve();
+
+    /**
+     * @param filePath - JSON file the registry is persisted to
+     * @param range - Range fallback ports are allocated from
+     */
+    constructor(private filePath: string, private range: PortRange = DEFAULT_PORT_RANGE) { }
+
+    /**
+     * Claims host ports for a VM. A requested port is kept if it is free or
+     * already owned by the same VM and guest port; otherwise the first free
+     * port of the range is used. Replaces the VM's previous claims for the
+     * same guest ports.
+     * @param options - avoid treats these host ports as taken (e.g. the ports of a clone's source)
+     * @returns One allocation per request, in order
+     * @throws If the range has no free port left, or the registry file is corrupt
+     */
+    allocate(vmName: string, requests: PortRequest[], options: { avoid?: number[] } = {}): Promise<PortAllocation[]> {
+        return this.exclusive(async () => {
+            const allocations = this.load();
+            const avoid = options.avoid || [];
+            const result: PortAllocation[] = [];
+
+            for (const request of requests) {
+                const protocol = request.protocol || 'tcp';
+                // The VM's previous claim for this guest port is replaced, but
+                // its host port is kept: a running VM holds it itself
+                const index = allocations.findIndex(a => a.vmName === vmName && a.guestPort === request.guest && a.protocol === protocol);
+                const previous = index === -1 ? undefined : allocations.splice(index, 1)[0];
+
+                let hostPort = request.host;
+                const ownClaim = previous && (previous.requestedPort === request.host || previous.hostPort === request.host);
+                if (ownClaim && !avoid.includes(previous!.hostPort)) {
+                    hostPort = previous!.hostPort;
+                } else if (avoid.includes(hostPort) || !(await this.isAvailable(allocations, hostPort, protocol))) {
+                    hostPort = await this.findFreePort(allocations, protocol, avoid);
+                    logger.info(`Host port ${request.host} is taken; forwarding ${vmName}:${request.guest} to ${hostPort} instead`);
+                }
+
+                const allocation: PortAllocation = {
+                    vmName,
+                    guestPort: request.guest,
+                    hostPort,
+                    requestedPort: request.host,
+                    protocol,
+                    allocatedAt: new Date().toISOString()
+                };
+                allocations.push(allocation);
+                result.push(allocation);
+            }
+
+            this.save(allocations);
+            return result;
+        });
+    }
+
+    /**
+     * Releases a VM's ports: all of them, or only the given host port
+     */
+    release(vmName: string, hostPort?: number, protocol: 'tcp' | 'udp' = 'tcp'): Promise<void> {
+        return this.exclusive(async () => {
+            const allocations = this.load();
+            const remaining = allocations.filter(a => !(a.vmName === vmName
+                && (hostPort === undefined || (a.hostPort === hostPort && a.protocol === protocol))));
+            if (remaining.length !== allocations.length) this.save(remaining);
+        });
+    }
+
+    /**
+     * Current allocations, optionally for one VM
+     */
+    list(vmName?: string): PortAllocation[] {
+        return this.load().filter(a => vmName === undefined || a.vmName === vmName);
+    }
+
+    /**
+     * VM that owns a host port, if any
+     */
+    owner(hostPort: number, protocol: 'tcp' | 'udp' = 'tcp'): string | undefined {
+        return this.load().find(a => a.hostPort === hostPort && a.protocol === protocol)?.vmName;
+    }
+
+    /**
+     * Runs an update after the queued ones, so that no two read the file,
+     * probe ports and write it back at the same time
+     */
+    private exclusive<T>(update: () => Promise<T>): Promise<T> {
+        const result = this.queue.then(update);
+        this.queue = result.catch(() => undefined);
+        return result;
+    }
+
+    private async isAvailable(allocations: PortAllocation[], port: number, protocol: 'tcp' | 'udp'): Promise<boolean> {
+        if (allocations.some(a => a.hostPort === port && a.protocol === protocol)) return false;
+        return isHostPortFree(port, protocol);
+    }
+
+    private async findFreePort(allocations: PortAllocation[], protocol: 'tcp' | 'udp', avoid: number[]): Promise<number> {
+        for (let port = this.range.start; port <= this.range.end; port++) {
+            if (!avoid.includes(port) && await this.isAvailable(allocations, port, protocol)) return port;
+        }
+        throw new Error(`No free host port left in range ${this.range.start}-${this.range.end}`);
+    }
+
+    /**
+     * @throws If the file cannot be parsed; overwriting it would drop every VM's claims
+     */
+    private load(): PortAllocation[] {
+        if (!fs.existsSync(this.filePath)) return [];
+        let data: unknown;
+        try {
+            data = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+        } catch (error: any) {
+            throw new Error(`Port registry ${this.filePath} is corrupt (${error.message}); fix or remove it`);
+        }
+        const allocations = (data as { allocations?: unknown } | null)?.allocations;
+        if (!Array.isArray(allocations)) {
+            throw new Error(`Port registry ${this.filePath} is corrupt (no allocations list); fix or remove it`);
+        }
+        const invalid = allocations.findIndex(a => !isPortAllocation(a));
+        if (invalid !== -1) {
+            throw new Error(`Port registry ${this.filePath} is corrupt (allocation ${invalid} is malformed); fix or remove it`);
+        }
+        return allocations;
+    }
+
+    private save(allocations: PortAllocation[]): void {
+        fs.writeFileSync(this.filePath, JSON.stringify({ allocations }, null, 2));
+    }
+}
+
+export { HostPortRegistry as default };
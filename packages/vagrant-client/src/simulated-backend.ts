@@ -0,0 +1,989 @@
+/**
+ * SimulatedBackend - In-memory execution backend
+ *
+ * Emulates VM lifecycle, guest files, snapshots and a handful of common
+ * shell commands without touching VirtualBox or Vagrant. Used to exercise
+ * the full MCP tool surface in CI and on machines without a hypervisor.
+ */
+
+import { logger } from '@virtualbox-mcp/shared-utils';
+import * as path from 'path';
+import * as fs from 'fs';
+import { randomUUID, createHash } from 'crypto';
+import { gunzipSync } from 'zlib';
+import { VMStatus, VMCredentials } from './types.js';
+import { readVagrantfile, Provisioner } from './vagrantfile.js';
+import {
+    VagrantBackend,
+    MachineRef,
+    ExecOptions,
+    ExecResult,
+    ProvisionOptions,
+    GlobalVagrantVM,
+    ModifyVMSettings,
+    PortForwardRule,
+    CloneOptions,
+    VMDisk,
+    AttachDiskOptions,
+    VagrantBox,
+    BoxUpdateStatus,
+    AddBoxOptions,
+    RemoveBoxOptions
+} from './backend.js';
+
+/**
+ * State captured by a simulated snapshot
+ */
+interface SimulatedSnapshot {
+    cpus: number;
+    memory: number;
+    files: Map<string, Buffer>;
+    modes: Map<string, number>;
+    links: Map<string, string>;
+}
+
+/**
+ * A machine tracked by the simulated backend
+ */
+export interface SimulatedMachine {
+    name: string;
+    state: VMStatus;
+    cpus: number;
+    memory: number;
+    /** Guest filesystem, keyed by absolute posix path */
+    files: Map<string, Buffer>;
+    /** Permission bits set by chmod or tar, keyed like files; other files count as 644 */
+    modes: Map<string, number>;
+    /** Symbolic links and their targets, keyed by absolute posix path */
+    links: Map<string, string>;
+    snapshots: Map<string, SimulatedSnapshot>;
+    /** NAT port-forwarding rules */
+    portForwards: PortForwardRule[];
+    /** Attached hard disks, primary disk first */
+    disks: VMDisk[];
+    /** Size of the guest root filesystem in MB */
+    rootFilesystemMB: number;
+}
+
+/**
+ * Produces the result of a simulated command. Receives the regex match of
+ * the pattern the handler was registered with.
+ */
+export type SimulatedCommandHandler = (
+    machine: SimulatedMachine,
+    match: RegExpMatchArray,
+    command: string
+) => ExecResult | Promise<ExecResult>;
+
+/**
+ * Options for creating a SimulatedBackend
+ */
+export interface SimulatedBackendOptions {
+    /** Plain VirtualBox VMs to pre-register (powered off) */
+    nativeVMs?: string[];
+    /** Boxes already in the simulated box cache */
+    boxes?: VagrantBox[];
+    /** Newest catalog version per box name, for outdated checks and downloads */
+    latestBoxVersions?: Record<string, string>;
+}
+
+/**
+ * Size reported for boxes "downloaded" from a catalog
+ */
+const SIMULATED_BOX_SIZE = 512 * 1024 * 1024;
+
+/**
+ * 1x1 transparent PNG returned for screenshots
+ */
+const BLANK_PNG = Buffer.from(
+    'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==',
+    'base64'
+);
+
+const ok = (stdout: string = ''): ExecResult => ({ stdout, stderr: '', exitCode: 0, timedOut: false });
+const fail = (stderr: string, exitCode: number = 1): ExecResult => ({ stdout: '', stderr, exitCode, timedOut: false });
+
+/**
+ * Splits single-quoted shell arguments, undoing '\'' escapes
+ */
+function quotedArgs(args: string): string[] {
+    return Array.from(args.matchAll(/'((?:[^']|'\\'')*)'/g), arg => arg[1].replace(/'\\''/g, "'"));
+}
+
+/**
+ * Converts a shell glob into an anchored regular expression
+ */
+function globPattern(glob: string): RegExp {
+    const source = glob.replace(/[.+^${}()|\\]/g, '\\$&')
+        .replace(/\*/g, '[^/]*')
+        .replace(/\?/g, '[^/]')
+        .replace(/\[!/g, '[^');
+    return new RegExp(`^${source}$`);
+}
+
+/**
+ * A regular file or symlink in a tar archive
+ */
+interface TarEntry {
+    content: Buffer;
+    /** Permission bits */
+    mode: number;
+    /** Target, for symlinks */
+    link?: string;
+}
+
+/**
+ * Regular files and symlinks of a gzipped tar archive, keyed by their path
+ * in it. Understands ustar headers plus GNU and pax long names.
+ */
+function readTarGz(archive: Buffer): Map<string, TarEntry> {
+    const data = gunzipSync(archive);
+    const entries = new Map<string, TarEntry>();
+    const field = (offset: number, length: number) => data.toString('utf8', offset, offset + length).replace(/\0.*$/s, '');
+    let longName: string | undefined;
+    let longLink: string | undefined;
+
+    for (let offset = 0; offset + 512 <= data.length && data[offset] !== 0;) {
+        const size = parseInt(field(offset + 124, 12).trim() || '0', 8);
+        const type = field(offset + 156, 1) || '0';
+        const prefix = field(offset + 345, 155);
+        const name = longName ?? (prefix ? `${prefix}/${field(offset, 100)}` : field(offset, 100));
+        const link = longLink ?? field(offset + 157, 100);
+        const mode = parseInt(field(offset + 100, 8).trim() || '644', 8) & 0o7777;
+        const content = data.subarray(offset + 512, offset + 512 + size);
+        longName = undefined;
+        longLink = undefined;
+
+        if (type === 'L') {
+            longName = content.toString('utf8').replace(/\0.*$/s, '');
+        } else if (type === 'K') {
+            longLink = content.toString('utf8').replace(/\0.*$/s, '');
+        } else if (type === 'x') {
+            longName = content.toString('utf8').match(/^\d+ path=(.*)$/m)?.[1];
+            longLink = content.toString('utf8').match(/^\d+ linkpath=(.*)$/m)?.[1];
+        } else if (type === '0' || type === '7') {
+            entries.set(name.replace(/^\.\//, ''), { content: Buffer.from(content), mode });
+        } else if (type === '2') {
+            entries.set(name.replace(/^\.\//, ''), { content: Buffer.alloc(0), mode, link });
+        }
+        offset += 512 + Math.ceil(size / 512) * 512;
+    }
+    return entries;
+}
+
+/**
+ * Applies the chmod parts of a command joined with && to a machine
+ * @returns The paths that do not exist
+ */
+function applyChmod(m: SimulatedMachine, command: string): string[] {
+    const missing: string[] = [];
+    for (const part of command.split(' && ')) {
+        const match = part.match(/^chmod ([0-7]+) -- (.+)$/);
+        if (!match) continue;
+        for (const file of quotedArgs(match[2])) {
+            if (m.files.has(file)) m.modes.set(file, parseInt(match[1], 8));
+            else missing.push(file);
+        }
+    }
+    return missing;
+}
+
+/**
+ * Output of a portable stat command (shared-utils portableStat) run by
+ * `sh -c <script> sh <files>`; understands %a, %s, %Y and %n
+ * @param names - How each file is printed (default: its path)
+ */
+function statFiles(m: SimulatedMachine, script: string, files: string[], names: string[] = files): ExecResult {
+    const format = script.match(/stat -c "([^"]*)"/)?.[1] ?? '%n';
+    const missing = files.filter(f => !m.files.has(f));
+    const stdout = files.flatMap((f, i) => {
+        const content = m.files.get(f);
+        if (!content) return [];
+        // The mtime is derived from the content so that edits change it
+        const mtime = parseInt(createHash('md5').update(content).digest('hex').slice(0, 8), 16);
+        return [format.replace(/%([asYn])/g, (_, field: string) => ({
+            a: (m.modes.get(f) ?? 0o644).toString(8),
+            s: String(content.length),
+            Y: String(mtime),
+            n: names[i]
+        })[field]!)];
+    });
+    return {
+        stdout: stdout.join('\n'),
+        stderr: missing.map(f => `stat: cannot statx '${f}': No such file or directory`).join('\n'),
+        exitCode: missing.length > 0 ? 1 : 0,
+        timedOut: false
+    };
+}
+
+/**
+ * Removes a path, and everything under it, from a machine
+ */
+function removePath(m: SimulatedMachine, target: string): void {
+    for (const map of [m.files, m.modes, m.links]) {
+        for (const file of Array.from(map.keys())) {
+            if (file === target || file.startsWith(`${target}/`)) map.delete(file);
+        }
+    }
+}
+
+/**
+ * Backend that keeps all machine state in memory
+ */
+export class SimulatedBackend implements VagrantBackend {
+    readonly kind = 'simulated';
+
+    /** Simulated machines, keyed by VM name */
+    private machines: Map<string, SimulatedMachine> = new Map();
+
+    /** Command handlers, checked in order */
+    private handlers: Array<{ pattern: RegExp; handler: SimulatedCommandHandler }> = [];
+
+    /** Every command executed, in order */
+    readonly commandLog: Array<{ vmName: string; command: string }> = [];
+
+    /** Every keyboard input sent, in order */
+    readonly keyboardLog: Array<{ vmName: string; input: string }> = [];
+
+    /** Local box cache */
+    private boxes: VagrantBox[];
+
+    /** Newest catalog version per box name */
+    private latestBoxVersions: Record<string, string>;
+
+    constructor(options: SimulatedBackendOptions = {}) {
+        for (const name of options.nativeVMs || []) {
+            this.createMachine(name, 'poweroff');
+        }
+        this.boxes = (options.boxes || []).map(box => ({ ...box }));
+        this.latestBoxVersions = { ...options.latestBoxVersions };
+        this.registerDefaultHandlers();
+        logger.info('SimulatedBackend initialized');
+    }
+
+    /**
+     * Registers a handler for commands matching a pattern. Handlers registered
+     * later take precedence over earlier ones and over the built-in handlers.
+     */
+    onCommand(pattern: RegExp, handler: SimulatedCommandHandler): void {
+        this.handlers.unshift({ pattern, handler });
+    }
+
+    /**
+     * Gets a simulated machine by name
+     */
+    getMachine(name: string): SimulatedMachine | undefined {
+        return this.machines.get(name);
+    }
+
+    private createMachine(name: string, state: VMStatus): SimulatedMachine {
+        const machine: SimulatedMachine = {
+            name,
+            state,
+            cpus: 1,
+            memory: 1024,
+            files: new Map(),
+            modes: new Map(),
+            links: new Map(),
+            snapshots: new Map(),
+            portForwards: [],
+            disks: [{
+                controller: 'SATA Controller',
+                port: 0,
+                device: 0,
+                path: `/simulated/${name}/box-disk001.vmdk`,
+                format: 'VMDK',
+                sizeMB: 40960
+            }],
+            rootFilesystemMB: 40960
+        };
+        this.machines.set(name, machine);
+        return machine;
+    }
+
+    private requireMachine(ref: MachineRef): SimulatedMachine {
+        const machine = this.machines.get(ref.name);
+        if (!machine) {
+            throw new Error(`VM ${ref.name} is not created`);
+        }
+        return machine;
+    }
+
+    private registerDefaultHandlers(): void {
+        const defaults: Array<[RegExp, SimulatedCommandHandler]> = [
+            [/^nproc$/, (m) => ok(String(m.cpus))],
+            [/^free -m/, (m) => ok(`${m.memory} ${Math.round(m.memory * 0.25)} ${Math.round(m.memory * 0.75)}`)],
+            [/^df -BG/, (m) => {
+                const total = Math.round(m.rootFilesystemMB / 1024);
+                return ok(`${total}G 4G ${total - 4}G ${Math.round(400 / total)}%`);
+            }],
+            // Guest side of a disk resize (growpart + resize2fs)
+            [/growpart/, (m) => {
+                m.rootFilesystemMB = m.disks[0]?.sizeMB ?? m.rootFilesystemMB;
+                return ok(`${Math.round(m.rootFilesystemMB / 1024)}G`);
+            }],
+            [/^cat \/proc\/loadavg/, () => ok('0.05 0.03 0.01 1/120 1234')],
+            [/^ps aux/, () => ok([
+                'root         1  0.0  0.1 167508 11504 ?        Ss   10:00   0:01 /sbin/init',
+                'root       640  0.0  0.1  72300  5600 ?        Ss   10:00   0:00 /usr/sbin/sshd -D',
+                'vagrant   1500  0.0  0.0  10044  3300 pts/0    Ss   10:01   0:00 -bash'
+            ].join('\n'))],
+            [/^tail -n (\d+) '([^']+)'/, (m, match) => {
+                const content = m.files.get(match[2]);
+                if (!content) return ok(`[ERROR] File not found or not readable: ${match[2]}`);
+                return ok(content.toString('utf8').split('\n').slice(-parseInt(match[1], 10)).join('\n'));
+            }],
+            [/^cat ["']?([^"']+)["']?$/, (m, match) => {
+                const content = m.files.get(match[1]);
+                return content ? ok(content.toString('utf8')) : fail(`cat: ${match[1]}: No such file or directory`);
+            }],
+            [/^(ls|test -e|test -d) ["']?([^"']+)["']?$/, (m, match) => {
+                const target = match[2].replace(/\/$/, '');
+                const isDirectory = Array.from(m.files.keys()).some(f => f.startsWith(`${target}/`));
+                const exists = isDirectory || (match[1] !== 'test -d' && m.files.has(target));
+                return exists ? ok(target) : fail(`ls: cannot access '${target}': No such file or directory`, 2);
+            }],
+            // Download listing: "D <dir>" and "F <size> <file>" per glob match
+            [/^for p in (.+?); do if \[ -d "\$p" \]/, (m, match, command) => {
+                // A quoted path is literal, anything else a glob
+                const pattern = /^'.*'$/.test(match[1])
+                    ? new RegExp(`^${quotedArgs(match[1])[0].replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`)
+                    : globPattern(match[1].replace(/\\(.)/g, '$1'));
+                const recursive = command.includes('find "$p"');
+                const files = Array.from(m.files.keys()).sort();
+                const directories = new Set<string>();
+                for (const file of files) {
+                    const parts = file.split('/');
+                    for (let i = 1; i < parts.length; i++) {
+                        if (parts.slice(0, i).join('/')) directories.add(parts.slice(0, i).join('/'));
+                    }
+                }
+                const lines: string[] = [];
+                for (const dir of Array.from(directories).filter(d => pattern.test(d)).sort()) {
+                    lines.push(`D ${dir}`);
+                    if (recursive) {
+                        lines.push(...files.filter(f => f.startsWith(`${dir}/`)).map(f => `F ${m.files.get(f)!.length} ${f}`));
+                    }
+                }
+                lines.push(...files.filter(f => pattern.test(f)).map(f => `F ${m.files.get(f)!.length} ${f}`));
+                return ok(lines.join('\n'));
+            }],
+            // Hashes, optionally followed by a stat of the same files
+            [/^(md5|sha256)sum -- (.+?)(?:; sh -c ('(?:[^']|'\\'')*') sh (.+))?$/, (m, match) => {
+                const paths = quotedArgs(match[2]);
+                const missing = paths.filter(p => !m.files.has(p));
+                const stdout = paths.filter(p => m.files.has(p))
+                    .map(p => `${createHash(match[1]).update(m.files.get(p)!).digest('hex')}  ${p}`)
+                    .join('\n');
+                const stderr = missing.map(p => `${match[1]}sum: ${p}: No such file or directory`).join('\n');
+                const stat = match[3] ? statFiles(m, quotedArgs(match[3])[0], quotedArgs(match[4])) : undefined;
+                return {
+                    stdout: [stdout, stat?.stdout].filter(Boolean).join('\n'),
+                    stderr: [stderr, stat?.stderr].filter(Boolean).join('\n'),
+                    exitCode: stat?.exitCode || (missing.length > 0 ? 1 : 0),
+                    timedOut: false
+                };
+            }],
+            // Tree listing used by the sync engine
+            [/^cd '((?:[^']|'\\'')*)' && find \. (?:-type d \\\( (.+) \\\) -prune -print -o )?-type f -exec md5sum \{\} \+(?: -exec sh -c ('(?:[^']|'\\'')*') sh \{\} \+)?$/, (m, match) => {
+                const root = match[1].replace(/'\\''/g, "'").replace(/\/+$/, '');
+                const files = Array.from(m.files.keys()).filter(f => f.startsWith(`${root}/`)).sort();
+                if (files.length === 0) return fail(`sh: cd: can't cd to ${root}`, 2);
+                // Directories only exist as prefixes of the simulated files
+                const prunes = match[2] ? quotedArgs(match[2]).map(globPattern) : [];
+                const pruned = new Set<string>();
+                const lines: string[] = [];
+                const listed: string[] = [];
+                for (const f of files) {
+                    const parts = f.slice(root.length + 1).split('/');
+                    const dirIndex = parts.findIndex((part, i) => i < parts.length - 1 && prunes.some(p => p.test(part)));
+                    if (dirIndex === -1) {
+                        lines.push(`${createHash('md5').update(m.files.get(f)!).digest('hex')}  ./${parts.join('/')}`);
+                        listed.push(f);
+                    } else if (!pruned.has(parts.slice(0, dirIndex + 1).join('/'))) {
+                        pruned.add(parts.slice(0, dirIndex + 1).join('/'));
+                        lines.push(`./${parts.slice(0, dirIndex + 1).join('/')}`);
+                    }
+                }
+                if (match[3]) {
+                    const names = listed.map(f => `.${f.slice(root.length)}`);
+                    lines.push(statFiles(m, quotedArgs(match[3])[0], listed, names).stdout);
+                }
+                return ok(lines.join('\n'));
+            }],
+            // Version check of a single file (size, mtime, md5)
+            [/^stat -c '%s %Y' -- ('(?:[^']|'\\'')*') && md5sum -- /, (m, match) => {
+                const [file] = quotedArgs(match[1]);
+                const content = m.files.get(file);
+                if (!content) return fail(`stat: cannot statx '${file}': No such file or directory`);
+                const mtime = Math.floor(Date.now() / 1000);
+                return ok(`${content.length} ${mtime}\n${createHash('md5').update(content).digest('hex')}  ${file}`);
+            }],
+            // Tree listing used by the guest watcher's polling; the mtime is
+            // derived from the content so that edits change it
+            [/^cd '((?:[^']|'\\'')*)' && find \. (?:-type d \\\( (.+) \\\) -prune -o )?-type f -exec sh -c '[^']*stat -c "%Y %s %n"[^']*' sh \{\} \+$/, (m, match) => {
+                const root = match[1].replace(/'\\''/g, "'").replace(/\/+$/, '');
+                const files = Array.from(m.files.keys()).filter(f => f.startsWith(`${root}/`)).sort();
+                if (files.length === 0) return fail(`sh: cd: can't cd to ${root}`, 2);
+                const prunes = match[2] ? quotedArgs(match[2]).map(globPattern) : [];
+                return ok(files.filter(f => !f.slice(root.length + 1).split('/').slice(0, -1).some(part => prunes.some(p => p.test(part)))).map(f => {
+                    const mtime = parseInt(createHash('md5').update(m.files.get(f)!).digest('hex').slice(0, 8), 16);
+                    return `${mtime} ${m.files.get(f)!.length} ./${f.slice(root.length + 1)}`;
+                }).join('\n'));
+            }],
+            [/^rm -rf -- (.+)$/, (m, match) => {
+                for (const target of quotedArgs(match[1])) {
+                    removePath(m, target);
+                }
+                return ok();
+            }],
+            // Permission bits set by the sync engine; owners are not simulated
+            [/^chmod [0-7]+ -- /, (m, _match, command) => {
+                const missing = applyChmod(m, command);
+                return missing.length > 0 ? fail(`chmod: cannot access '${missing[0]}': No such file or directory`) : ok();
+            }],
+            [/^sh -c ('(?:[^']|'\\'')*') sh (.+)$/, (m, match) => statFiles(m, quotedArgs(match[1])[0], quotedArgs(match[2]))],
+            [/^mkdir -p '(?:[^']|'\\'')*' && mv -f -- ('(?:[^']|'\\'')*') ('(?:[^']|'\\'')*')/, (m, match, command) => {
+                const [from] = quotedArgs(match[1]);
+                const [to] = quotedArgs(match[2]);
+                const content = m.files.get(from);
+                const link = m.links.get(from);
+                if (!content && link === undefined) return fail(`mv: cannot stat '${from}': No such file or directory`);
+                const mode = m.modes.get(from);
+                removePath(m, from);
+                removePath(m, to);
+                if (content) m.files.set(to, content);
+                if (mode !== undefined) m.modes.set(to, mode);
+                if (link !== undefined) m.links.set(to, link);
+                applyChmod(m, command);
+                return ok();
+            }],
+            // Symlink recreated by the sync engine
+            [/^mkdir -p '(?:[^']|'\\'')*' && rm -rf -- ('(?:[^']|'\\'')*') && ln -s -- ('(?:[^']|'\\'')*') ('(?:[^']|'\\'')*')/, (m, match) => {
+                const [target] = quotedArgs(match[2]);
+                const [link] = quotedArgs(match[3]);
+                removePath(m, link);
+                m.links.set(link, target);
+                return ok();
+            }],
+            // Archive upload used by the sync engine
+            [/^mkdir -p '(?:[^']|'\\'')*' && (?:sudo -n )?tar (?:--same-owner --numeric-owner )?-xzpf ('(?:[^']|'\\'')*') -C ('(?:[^']|'\\'')*'); status=\$\?; rm -f -- /, (m, match) => {
+                const [archive] = quotedArgs(match[1]);
+                const [directory] = quotedArgs(match[2]);
+                const content = m.files.get(archive);
+                m.files.delete(archive);
+                if (!content) return fail(`tar: ${archive}: Cannot open: No such file or directory`, 2);
+                for (const [name, entry] of readTarGz(content)) {
+                    const file = path.posix.join(directory, name);
+                    removePath(m, file);
+                    if (entry.link !== undefined) {
+                        m.links.set(file, entry.link);
+                    } else {
+                        m.files.set(file, entry.content);
+                        m.modes.set(file, entry.mode);
+                    }
+                }
+                return ok();
+            }],
+            [/^echo (.*)$/,(_m, match) => ok(match[1].replace(/^["']|["']$/g, ''))],
+            [/^(true|:)$/, () => ok()],
+            [/^false$/, () => fail('', 1)]
+        ];
+
+        for (const [pattern, handler] of defaults) {
+            this.handlers.push({ pattern, handler });
+        }
+    }
+
+    // ========================================
+    // DISCOVERY
+    // ========================================
+
+    async getStatus(ref: MachineRef): Promise<VMStatus> {
+        return this.machines.get(ref.name)?.state || 'not_created';
+    }
+
+    async listNativeVMs(): Promise<string[]> {
+        return Array.from(this.machines.keys());
+    }
+
+    async listGlobalVMs(): Promise<GlobalVagrantVM[]> {
+        return [];
+    }
+
+    // ========================================
+    // LIFECYCLE
+    // ========================================
+
+    async up(ref: MachineRef): Promise<void> {
+        const created = !this.machines.has(ref.name);
+        const machine = this.machines.get(ref.name) || this.createMachine(ref.name, 'poweroff');
+        machine.state = 'running';
+        if (ref.kind !== 'native') {
+            this.applyForwardedPorts(ref, machine);
+        }
+        if (created && ref.kind !== 'native') {
+            this.ensureBox(ref);
+        }
+        logger.info(`[simulated] VM ${ref.name} is running`);
+
+        // Like Vagrant, provision on the first boot
+        if (created && ref.kind !== 'native') {
+            const result = await this.provision(ref);
+            if (result.exitCode !== 0) {
+                throw new Error(result.stderr || `Provisioning ${ref.name} failed`);
+            }
+        }
+    }
+
+    /**
+     * Replaces the NAT rules with the Vagrantfile's, as `vagrant up` does
+     */
+    private applyForwardedPorts(ref: MachineRef, machine: SimulatedMachine): void {
+        if (ref.kind === 'native') return;
+        const model = readVagrantfile(ref.directory);
+        const definition = ref.kind === 'managed' && ref.machine ? model?.machines?.find(m => m.name === ref.machine) : undefined;
+        const ports = [...(model?.forwardedPorts || []), ...(definition?.forwardedPorts || [])];
+        machine.portForwards = [
+            { name: 'ssh', protocol: 'tcp', hostIp: '127.0.0.1', hostPort: 2222, guestPort: 22 },
+            ...ports.map((p): PortForwardRule => ({
+                name: p.id || `${p.protocol || 'tcp'}${p.guest}`,
+                protocol: p.protocol || 'tcp',
+                hostIp: p.hostIp,
+                hostPort: p.host,
+                guestPort: p.guest
+            }))
+        ];
+    }
+
+    /**
+     * Downloads the machine's box into the cache if missing, as `vagrant up` does
+     */
+    private ensureBox(ref: MachineRef): void {
+        if (ref.kind === 'native') return;
+        const model = readVagrantfile(ref.directory);
+        const definition = ref.kind === 'managed' && ref.machine ? model?.machines?.find(m => m.name === ref.machine) : undefined;
+        const box = definition?.box || model?.box;
+        if (!box || this.boxes.some(b => b.name === box)) return;
+        this.boxes.push({
+            name: box,
+            provider: 'virtualbox',
+            version: this.latestBoxVersions[box] || '1.0.0',
+            sizeBytes: SIMULATED_BOX_SIZE
+        });
+    }
+
+    async halt(ref: MachineRef): Promise<void> {
+        const machine = this.requireMachine(ref);
+        // Like Vagrant, halting a suspended machine discards its saved state
+        machine.state = 'poweroff';
+    }
+
+    async reload(ref: MachineRef): Promise<void> {
+        const machine = this.requireMachine(ref);
+        machine.state = 'running';
+        this.applyForwardedPorts(ref, machine);
+    }
+
+    async suspend(ref: MachineRef): Promise<void> {
+        const machine = this.requireMachine(ref);
+        if (machine.state !== 'running') {
+            throw new Error(`VM ${ref.name} is not running (state: ${machine.state})`);
+        }
+        machine.state = 'saved';
+    }
+
+    async resume(ref: MachineRef): Promise<void> {
+        const machine = this.requireMachine(ref);
+        if (machine.state !== 'saved') {
+            throw new Error(`VM ${ref.name} is not suspended (state: ${machine.state})`);
+        }
+        machine.state = 'running';
+    }
+
+    async discardState(ref: MachineRef): Promise<void> {
+        const machine = this.requireMachine(ref);
+        if (machine.state === 'saved') machine.state = 'poweroff';
+    }
+
+    async destroy(ref: MachineRef): Promise<void> {
+        this.machines.delete(ref.name);
+    }
+
+    // ========================================
+    // GUEST ACCESS
+    // ========================================
+
+    async exec(ref: MachineRef, command: string, options: ExecOptions = {}): Promise<ExecResult> {
+        const machine = this.machines.get(ref.name);
+        if (!machine || machine.state !== 'running') {
+            const status = machine?.state || 'not_created';
+            if (ref.kind === 'native') {
+                throw new Error(`Cannot execute command: VM '${ref.name}' is in state '${status}' (must be 'running')`);
+            }
+            return fail('VM must be running to open SSH connection.');
+        }
+
+        this.commandLog.push({ vmName: ref.name, command });
+        const trimmed = command.trim();
+
+        let result = ok(); // Unknown commands succeed silently
+        for (const { pattern, handler } of this.handlers) {
+            const match = trimmed.match(pattern);
+            if (match) {
+                result = await handler(machine, match, trimmed);
+                break;
+            }
+        }
+
+        if (options.onOutput) {
+            if (result.stdout) options.onOutput({ stream: 'stdout', data: result.stdout });
+            if (result.stderr) options.onOutput({ stream: 'stderr', data: result.stderr });
+        }
+        return result;
+    }
+
+    async upload(ref: MachineRef, source: string, destination: string, credentials: VMCredentials = {}): Promise<void> {
+        const machine = this.requireMachine(ref);
+        const stats = await fs.promises.stat(source);
+
+        if (!stats.isDirectory()) {
+            machine.files.set(destination, await fs.promises.readFile(source));
+            return;
+        }
+
+        const entries = await fs.promises.readdir(source, { recursive: true, withFileTypes: true });
+        for (const entry of entries) {
+            if (!entry.isFile()) continue;
+            const hostFile = path.join(entry.parentPath, entry.name);
+            const relPath = path.relative(source, hostFile).replace(/\\/g, '/');
+            machine.files.set(path.posix.join(destination, relPath), await fs.promises.readFile(hostFile));
+        }
+    }
+
+    async download(ref: MachineRef, source: string, destination: string, credentials: VMCredentials = {}): Promise<void> {
+        const machine = this.requireMachine(ref);
+        const content = machine.files.get(source);
+        if (!content) {
+            throw new Error(`${source}: No such file or directory`);
+        }
+        await fs.promises.writeFile(destination, content);
+    }
+
+    async rsync(ref: MachineRef, direction: 'to_vm' | 'from_vm'): Promise<void> {
+        this.requireMachine(ref);
+        logger.info(`[simulated] rsync ${direction} for ${ref.name}`);
+    }
+
+    async keyboardPutString(ref: MachineRef, text: string): Promise<void> {
+        this.requireMachine(ref);
+        this.keyboardLog.push({ vmName: ref.name, input: text });
+    }
+
+    async keyboardPutScancodes(ref: MachineRef, scancodes: string[]): Promise<void> {
+        this.requireMachine(ref);
+        this.keyboardLog.push({ vmName: ref.name, input: scancodes.join(' ') });
+    }
+
+    /**
+     * Runs the provisioners of the machine's Vagrantfile: inline shell
+     * scripts go through the command handlers line by line, file
+     * provisioners copy into the guest, and ansible_local always succeeds.
+     */
+    async provision(ref: MachineRef, options: ProvisionOptions = {}): Promise<ExecResult> {
+        const machine = this.requireMachine(ref);
+        const label = ref.kind === 'managed' && ref.machine ? ref.machine : 'default';
+        const lines: string[] = [];
+        const emit = (line: string) => {
+            lines.push(line);
+            options.onOutput?.({ stream: 'stdout', data: `${line}\n` });
+        };
+
+        if (machine.state !== 'running') {
+            emit(`==> ${label}: VM not running. Please start the VM before provisioning.`);
+            return { stdout: lines.join('\n'), stderr: '', exitCode: 1, timedOut: false };
+        }
+
+        let provisioners: Provisioner[] = [];
+        if (ref.kind === 'managed') {
+            const model = readVagrantfile(ref.directory);
+            const definition = ref.machine ? model?.machines?.find(m => m.name === ref.machine) : undefined;
+            provisioners = [...(model?.provisioners || []), ...(definition?.provisioners || [])];
+        }
+        if (options.provisionWith && options.provisionWith.length > 0) {
+            const wanted = options.provisionWith;
+            provisioners = provisioners.filter(p => wanted.includes(p.name || p.type) || wanted.includes(p.type));
+        } else {
+            // `run: "never"` provisioners only run when requested by name
+            provisioners = provisioners.filter(p => p.run !== 'never');
+        }
+
+        for (const p of provisioners) {
+            emit(`==> ${label}: Running provisioner: ${p.name ? `${p.name} (${p.type})` : p.type}...`);
+            if (p.type === 'file' && p.source && p.destination) {
+                // Vagrant resolves relative sources against the Vagrantfile directory
+                const source = ref.kind === 'native' ? p.source : path.resolve(ref.directory, p.source);
+                await this.upload(ref, source, p.destination);
+                continue;
+            }
+            if (p.type !== 'shell') continue;
+
+            emit(`    ${label}: Running: ${p.inline !== undefined ? 'inline script' : p.path}`);
+            for (const command of (p.inline || '').split('\n').filter(c => c.trim())) {
+                const result = await this.exec(ref, command);
+                for (const out of [result.stdout, result.stderr].filter(Boolean)) {
+                    out.split('\n').forEach(line => emit(`    ${label}: ${line}`));
+                }
+                if (result.exitCode !== 0) {
+                    const stderr = 'The SSH command responded with a non-zero exit status. Vagrant\n' +
+                        'assumes that this means the command failed. The output for this command\n' +
+                        'should be in the log above. Please read the output to determine what\n' +
+                        'went wrong.';
+                    options.onOutput?.({ stream: 'stderr', data: stderr });
+                    return { stdout: lines.join('\n'), stderr, exitCode: 1, timedOut: false };
+                }
+            }
+        }
+
+        return { stdout: lines.join('\n'), stderr: '', exitCode: 0, timedOut: false };
+    }
+
+    // ========================================
+    // SNAPSHOTS
+    // ========================================
+
+    async snapshotSave(ref: MachineRef, snapshotName: string): Promise<void> {
+        const machine = this.requireMachine(ref);
+        machine.snapshots.set(snapshotName, {
+            cpus: machine.cpus,
+            memory: machine.memory,
+            files: new Map(machine.files),
+            modes: new Map(machine.modes),
+            links: new Map(machine.links)
+        });
+    }
+
+    async snapshotRestore(ref: MachineRef, snapshotName: string): Promise<void> {
+        const machine = this.requireMachine(ref);
+        const snapshot = machine.snapshots.get(snapshotName);
+        if (!snapshot) {
+            throw new Error(`Snapshot '${snapshotName}' not found for VM ${ref.name}`);
+        }
+        machine.cpus = snapshot.cpus;
+        machine.memory = snapshot.memory;
+        machine.files = new Map(snapshot.files);
+        machine.modes = new Map(snapshot.modes);
+        machine.links = new Map(snapshot.links);
+    }
+
+    async snapshotList(ref: MachineRef): Promise<string[]> {
+        return Array.from(this.requireMachine(ref).snapshots.keys());
+    }
+
+    async snapshotDelete(ref: MachineRef, snapshotName: string): Promise<void> {
+        const machine = this.requireMachine(ref);
+        if (!machine.snapshots.delete(snapshotName)) {
+            throw new Error(`Snapshot '${snapshotName}' not found for VM ${ref.name}`);
+        }
+    }
+
+    // ========================================
+    // HARDWARE & EXPORT
+    // ========================================
+
+    async screenshot(ref: MachineRef, hostPath: string): Promise<void> {
+        const machine = this.requireMachine(ref);
+        if (machine.state !== 'running') {
+            throw new Error(`Cannot take screenshot: VM '${ref.name}' is not running`);
+        }
+        await fs.promises.writeFile(hostPath, BLANK_PNG);
+    }
+
+    async modifyVM(ref: MachineRef, settings: ModifyVMSettings): Promise<void> {
+        const machine = this.requirePoweredOff(ref);
+        if (settings.cpus !== undefined) machine.cpus = settings.cpus;
+        if (settings.memory !== undefined) machine.memory = settings.memory;
+    }
+
+    async packageBox(ref: MachineRef, outputPath: string): Promise<void> {
+        const machine = this.requireMachine(ref);
+        const metadata = { name: machine.name, cpus: machine.cpus, memory: machine.memory, provider: 'simulated' };
+        await fs.promises.writeFile(outputPath, JSON.stringify(metadata, null, 2));
+    }
+
+    async cloneVM(ref: MachineRef, cloneName: string, options: CloneOptions = {}): Promise<string> {
+        const source = this.requireMachine(ref);
+        if (this.machines.has(cloneName)) {
+            throw new Error(`A machine named '${cloneName}' already exists`);
+        }
+        if (options.linked && !options.snapshot) {
+            throw new Error('Linked clones can only be created from a snapshot');
+        }
+
+        const snapshot = options.snapshot ? source.snapshots.get(options.snapshot) : undefined;
+        if (options.snapshot && !snapshot) {
+            throw new Error(`Snapshot '${options.snapshot}' not found for VM ${ref.name}`);
+        }
+
+        const clone = this.createMachine(cloneName, 'poweroff');
+        clone.cpus = snapshot?.cpus ?? source.cpus;
+        clone.memory = snapshot?.memory ?? source.memory;
+        clone.files = new Map(snapshot?.files ?? source.files);
+        clone.portForwards = source.portForwards.map(rule => ({ ...rule }));
+        clone.disks = source.disks.map(disk => ({ ...disk, path: disk.path.replace(`/${ref.name}/`, `/${cloneName}/`) }));
+        clone.rootFilesystemMB = source.rootFilesystemMB;
+        return randomUUID();
+    }
+
+    // ========================================
+    // DISKS
+    // ========================================
+
+    /**
+     * Fails like VirtualBox does for storage changes on a running VM
+     */
+    private requirePoweredOff(ref: MachineRef): SimulatedMachine {
+        const machine = this.requireMachine(ref);
+        if (machine.state === 'running') {
+            throw new Error(`VM ${ref.name} is locked while running`);
+        }
+        return machine;
+    }
+
+    async listDisks(ref: MachineRef): Promise<VMDisk[]> {
+        return this.requireMachine(ref).disks.map(disk => ({ ...disk }));
+    }
+
+    async resizeDisk(ref: MachineRef, disk: VMDisk, sizeMB: number): Promise<string> {
+        const machine = this.requirePoweredOff(ref);
+        const attached = machine.disks.find(d => d.path === disk.path);
+        if (!attached) {
+            throw new Error(`Disk ${disk.path} is not attached to VM ${ref.name}`);
+        }
+        if (attached.format === 'VMDK') {
+            attached.path = attached.path.replace(/\.vmdk$/i, '.vdi');
+            attached.format = 'VDI';
+        }
+        attached.sizeMB = sizeMB;
+        return attached.path;
+    }
+
+    async attachDisk(ref: MachineRef, options: AttachDiskOptions): Promise<VMDisk> {
+        const machine = this.requirePoweredOff(ref);
+        const controller = options.controller || machine.disks[0]?.controller || 'SATA Controller';
+        let port = options.port;
+        if (port === undefined) {
+            port = 0;
+            while (machine.disks.some(d => d.controller === controller && d.port === port)) port++;
+        } else if (machine.disks.some(d => d.controller === controller && d.port === port)) {
+            throw new Error(`Port ${port} of ${controller} is already in use`);
+        }
+
+        const existingMB = fs.existsSync(options.path) ? Math.ceil(fs.statSync(options.path).size / (1024 * 1024)) : undefined;
+        if (existingMB === undefined && !options.sizeMB) {
+            throw new Error(`Disk image ${options.path} does not exist; specify a size to create it`);
+        }
+        const disk: VMDisk = { controller, port, device: 0, path: options.path, format: 'VDI', sizeMB: existingMB ?? options.sizeMB };
+        machine.disks.push(disk);
+        return { ...disk };
+    }
+
+    async detachDisk(ref: MachineRef, disk: VMDisk): Promise<void> {
+        const machine = this.requirePoweredOff(ref);
+        const index = machine.disks.findIndex(d => d.controller === disk.controller && d.port === disk.port && d.device === disk.device);
+        if (index === -1) {
+            throw new Error(`No disk attached at ${disk.controller} port ${disk.port}`);
+        }
+        machine.disks.splice(index, 1);
+    }
+
+    // ========================================
+    // NETWORKING
+    // ========================================
+
+    async listPortForwards(ref: MachineRef): Promise<PortForwardRule[]> {
+        return this.requireMachine(ref).portForwards.map(rule => ({ ...rule }));
+    }
+
+    async addPortForward(ref: MachineRef, rule: PortForwardRule): Promise<void> {
+        const machine = this.requireMachine(ref);
+        if (machine.portForwards.some(r => r.name === rule.name)) {
+            throw new Error(`A NAT rule named '${rule.name}' already exists`);
+        }
+        machine.portForwards.push({ ...rule });
+    }
+
+    async removePortForward(ref: MachineRef, ruleName: string): Promise<void> {
+        const machine = this.requireMachine(ref);
+        const index = machine.portForwards.findIndex(r => r.name === ruleName);
+        if (index === -1) {
+            throw new Error(`NAT rule '${ruleName}' not found`);
+        }
+        machine.portForwards.splice(index, 1);
+    }
+
+    // ========================================
+    // BOXES
+    // ========================================
+
+    async listBoxes(): Promise<VagrantBox[]> {
+        return this.boxes.map(box => ({ ...box }));
+    }
+
+    async addBox(source: string, options: AddBoxOptions = {}): Promise<void> {
+        const fromFile = fs.existsSync(source);
+        if (fromFile && !options.name) {
+            throw new Error('The box name is required when adding a box file (--name)');
+        }
+
+        const name = options.name || source;
+        const provider = options.provider || 'virtualbox';
+        const version = fromFile ? '0' : (this.latestBoxVersions[name] || '1.0.0');
+        const existing = this.boxes.findIndex(b => b.name === name && b.provider === provider && b.version === version);
+        if (existing !== -1 && !options.force) {
+            throw new Error(`The box you're attempting to add already exists: ${name} (${provider}, ${version})`);
+        }
+
+        options.onOutput?.({ stream: 'stdout', data: `==> box: Adding box '${name}' (v${version}) for provider: ${provider}\n` });
+        const box: VagrantBox = {
+            name,
+            provider,
+            version,
+            sizeBytes: fromFile ? fs.statSync(source).size : SIMULATED_BOX_SIZE
+        };
+        if (existing !== -1) {
+            this.boxes[existing] = box;
+        } else {
+            this.boxes.push(box);
+        }
+        options.onOutput?.({ stream: 'stdout', data: `==> box: Successfully added box '${name}' (v${version}) for '${provider}'!\n` });
+    }
+
+    async removeBox(name: string, options: RemoveBoxOptions = {}): Promise<void> {
+        const matches = this.boxes.filter(b => b.name === name
+            && (!options.provider || b.provider === options.provider)
+            && (options.allVersions || !options.version || b.version === options.version));
+        if (matches.length === 0) {
+            throw new Error(`The box you requested to be removed could not be found: ${name}`);
+        }
+        if (matches.length > 1 && !options.allVersions && !options.version) {
+            throw new Error(`You requested to remove the box '${name}', which has multiple versions. Specify --box-version or --all`);
+        }
+        this.boxes = this.boxes.filter(b => !matches.includes(b));
+    }
+
+    async outdatedBoxes(): Promise<BoxUpdateStatus[]> {
+        return this.boxes.map(box => {
+            const latest = box.version === '0' ? undefined : (this.latestBoxVersions[box.name] || box.version);
+            return {
+                name: box.name,
+                provider: box.provider,
+                currentVersion: box.version === '0' ? undefined : box.version,
+                latestVersion: latest,
+                outdated: latest !== undefined && latest !== box.version
+            };
+        });
+    }
+}
+
+export { SimulatedBackend as default };
@@ -0,0 +1,403 @@
+/**
+ * SshConnectionPool - Persistent SSH connections to Vagrant machines
+ *
+ * Spawning `vagrant ssh -c` costs a Ruby startup and a fresh SSH handshake
+ * per command. The pool reads `vagrant ssh-config` once per VM, keeps one
+ * connection open per machine and multiplexes commands over it as separate
+ * channels. Connections that stay unused for longer than the idle timeout
+ * are closed.
+ */
+
+import { Client } from 'ssh2';
+import { logger } from '@virtualbox-mcp/shared-utils';
+import * as fs from 'fs';
+import { StringDecoder } from 'string_decoder';
+import { ExecResult, OutputChunk } from './backend.js';
+
+/**
+ * Connection details parsed from `vagrant ssh-config`
+ */
+export interface SshEndpoint {
+    host: string;
+    port: number;
+    username: string;
+    /** Path to the private key, if the machine uses key authentication */
+    identityFile?: string;
+}
+
+/**
+ * Options for the connection pool
+ */
+export interface SshPoolOptions {
+    /** Close connections unused for this long (default: 5 minutes) */
+    idleTimeoutMs?: number;
+    /** Timeout for establishing a connection (default: 15 seconds) */
+    connectTimeoutMs?: number;
+    /** After a failed connect, skip the pool for this long (default: 30 seconds) */
+    retryDelayMs?: number;
+    /** Channels open at once per connection; more wait for a free one (default: 8, below sshd's MaxSessions of 10) */
+    maxChannels?: number;
+}
+
+/**
+ * A live connection tracked by the pool
+ */
+interface PooledConnection {
+    client: Client;
+    /** Resolves once the connection is ready */
+    ready: Promise<Client>;
+    /** Number of channels currently open */
+    activeChannels: number;
+    /** Commands waiting for a channel, oldest first */
+    waiting: Array<() => void>;
+    lastUsedAt: number;
+}
+
+const DEFAULT_IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+const DEFAULT_CONNECT_TIMEOUT_MS = 15000;
+const DEFAULT_RETRY_DELAY_MS = 30000;
+const DEFAULT_MAX_CHANNELS = 8;
+
+/**
+ * Parses the output of `vagrant ssh-config` (first Host block only)
+ */
+export function parseSshConfig(output: string): SshEndpoint {
+    const values = new Map<string, string>();
+    for (const line of output.split('\n')) {
+        const match = line.trim().match(/^(\w+)\s+(.+)$/);
+        if (!match) continue;
+        const key = match[1].toLowerCase();
+        // A second Host block belongs to another machine
+        if (key === 'host' && values.has('host')) break;
+        if (!values.has(key)) {
+            values.set(key, match[2].trim().replace(/^"(.*)"$/, '$1'));
+        }
+    }
+
+    const host = values.get('hostname');
+    const port = parseInt(values.get('port') || '', 10);
+    if (!host || isNaN(port)) {
+        throw new Error('Could not parse vagrant ssh-config output');
+    }
+
+    return {
+        host,
+        port,
+        username: values.get('user') || 'vagrant',
+        identityFile: values.get('identityfile')
+    };
+}
+
+/**
+ * Pool of SSH connections keyed by machine
+ */
+export class SshConnectionPool {
+    /** Open connections, keyed by machine key */
+    private connections: Map<string, PooledConnection> = new Map();
+
+    /** Cached endpoints, keyed by machine key */
+    private endpoints: Map<string, SshEndpoint> = new Map();
+
+    /** Connection attempts in flight, keyed by machine key */
+    private opening: Map<string, Promise<PooledConnection>> = new Map();
+
+    /** Machines whose last connect failed, with the time the pool may retry */
+    private unavailableUntil: Map<string, number> = new Map();
+
+    private idleTimeoutMs: number;
+    private connectTimeoutMs: number;
+    private retryDelayMs: number;
+    private maxChannels: number;
+    private evictionTimer: NodeJS.Timeout;
+
+    constructor(options: SshPoolOptions = {}) {
+        this.idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+        this.connectTimeoutMs = options.connectTimeoutMs ?? DEFAULT_CONNECT_TIMEOUT_MS;
+        this.retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+        this.maxChannels = options.maxChannels ?? DEFAULT_MAX_CHANNELS;
+
+        this.evictionTimer = setInterval(() => this.evictIdle(), Math.max(1000, Math.floor(this.idleTimeoutMs / 2)));
+        // Never keep the process alive just for eviction
+        this.evictionTimer.unref();
+    }
+
+    /**
+     * Executes a command over a pooled connection
+     *
+     * @param key - Stable identifier of the machine (e.g. its project directory)
+     * @param loadEndpoint - Called once per machine to read its ssh-config
+     * @param command - Shell command to run
+     * @param options - Timeout in milliseconds, optional output listener and abort signal
+     * @throws If no connection can be established; callers fall back to `vagrant ssh`
+     */
+    async exec(
+        key: string,
+        loadEndpoint: () => Promise<SshEndpoint>,
+        command: string,
+        options: { timeout: number; onOutput?: (chunk: OutputChunk) => void; signal?: AbortSignal }
+    ): Promise<ExecResult> {
+        const pooled = await this.acquire(key, loadEndpoint);
+        await this.openSlot(pooled);
+
+        try {
+            return await this.runChannel(pooled.client, command, options.timeout, options.onOutput, options.signal);
+        } finally {
+            this.releaseSlot(pooled);
+        }
+    }
+
+    /**
+     * Copies a file from the machine to the host over SFTP. Content is
+     * transferred byte for byte, so binary files arrive intact.
+     *
+     * @param key - Stable identifier of the machine
+     * @param loadEndpoint - Called once per machine to read its ssh-config
+     * @param remotePath - File on the machine
+     * @param localPath - Destination on the host (overwritten)
+     * @throws If no connection can be established or the transfer fails
+     */
+    async download(
+        key: string,
+        loadEndpoint: () => Promise<SshEndpoint>,
+        remotePath: string,
+        localPath: string
+    ): Promise<void> {
+        const pooled = await this.acquire(key, loadEndpoint);
+        await this.openSlot(pooled);
+
+        try {
+            await new Promise<void>((resolve, reject) => {
+                pooled.client.sftp((err, sftp) => {
+                    if (err) {
+                        // Only this transfer fails; a dead connection is dropped by its close event
+                        reject(err);
+                        return;
+                    }
+                    sftp.fastGet(remotePath, localPath, (transferError) => {
+                        sftp.end();
+                        if (transferError) reject(transferError);
+                        else resolve();
+                    });
+                });
+            });
+        } finally {
+            this.releaseSlot(pooled);
+        }
+    }
+
+    /**
+     * Drops the connection and cached endpoint of a machine. Call after
+     * lifecycle changes, since `vagrant up` may pick a different SSH port.
+     */
+    invalidate(key: string): void {
+        this.endpoints.delete(key);
+        this.unavailableUntil.delete(key);
+        const pooled = this.connections.get(key);
+        if (pooled) {
+            this.connections.delete(key);
+            pooled.client.end();
+        }
+    }
+
+    /**
+     * Closes every connection
+     */
+    closeAll(): void {
+        for (const key of Array.from(this.connections.keys())) {
+            this.invalidate(key);
+        }
+        clearInterval(this.evictionTimer);
+    }
+
+    /**
+     * Number of open connections
+     */
+    get size(): number {
+        return this.connections.size;
+    }
+
+    private async acquire(key: string, loadEndpoint: () => Promise<SshEndpoint>): Promise<PooledConnection> {
+        const existing = this.connections.get(key);
+        if (existing) {
+            try {
+                await existing.ready;
+                return existing;
+            } catch {
+                // Fall through and reconnect; the failed entry was already removed
+            }
+        }
+
+        // Parallel commands for the same machine share one connection attempt
+        let opening = this.opening.get(key);
+        if (!opening) {
+            opening = this.open(key, loadEndpoint).finally(() => this.opening.delete(key));
+            this.opening.set(key, opening);
+        }
+        return opening;
+    }
+
+    private async open(key: string, loadEndpoint: () => Promise<SshEndpoint>): Promise<PooledConnection> {
+        const retryAt = this.unavailableUntil.get(key);
+        if (retryAt && Date.now() < retryAt) {
+            throw new Error(`SSH pool unavailable for ${key} (recent connection failure)`);
+        }
+
+        let endpoint = this.endpoints.get(key);
+        if (!endpoint) {
+            try {
+                endpoint = await loadEndpoint();
+            } catch (error) {
+                this.unavailableUntil.set(key, Date.now() + this.retryDelayMs);
+                throw error;
+            }
+            this.endpoints.set(key, endpoint);
+        }
+
+        const client = new Client();
+        const pooled: PooledConnection = {
+            client,
+            ready: this.connect(client, endpoint),
+            activeChannels: 0,
+            waiting: [],
+            lastUsedAt: Date.now()
+        };
+        this.connections.set(key, pooled);
+
+        const drop = () => {
+            if (this.connections.get(key) === pooled) {
+                this.connections.delete(key);
+            }
+        };
+        client.on('close', drop);
+        client.on('end', drop);
+        client.on('error', (error) => {
+            logger.debug(`Pooled SSH connection for ${key} failed: ${error.message}`);
+            drop();
+        });
+
+        try {
+            await pooled.ready;
+        } catch (error) {
+            drop();
+            // The endpoint may be stale (e.g. port changed after a reboot)
+            this.endpoints.delete(key);
+            this.unavailableUntil.set(key, Date.now() + this.retryDelayMs);
+            throw error;
+        }
+
+        logger.debug(`Opened pooled SSH connection for ${key} (${endpoint.host}:${endpoint.port})`);
+        return pooled;
+    }
+
+    private connect(client: Client, endpoint: SshEndpoint): Promise<Client> {
+        return new Promise((resolve, reject) => {
+            client.once('ready', () => resolve(client));
+            client.once('error', reject);
+            client.connect({
+                host: endpoint.host,
+                port: endpoint.port,
+                username: endpoint.username,
+                privateKey: endpoint.identityFile ? fs.readFileSync(endpoint.identityFile) : undefined,
+                password: endpoint.identityFile ? undefined : 'vagrant',
+                readyTimeout: this.connectTimeoutMs,
+                keepaliveInterval: 30000
+            });
+        });
+    }
+
+    /**
+     * Waits until the connection has fewer than maxChannels channels open,
+     * then counts one more
+     */
+    private async openSlot(pooled: PooledConnection): Promise<void> {
+        if (pooled.activeChannels >= this.maxChannels) {
+            await new Promise<void>(resolve => pooled.waiting.push(resolve));
+        }
+        pooled.activeChannels++;
+        pooled.lastUsedAt = Date.now();
+    }
+
+    private releaseSlot(pooled: PooledConnection): void {
+        pooled.activeChannels--;
+        pooled.lastUsedAt = Date.now();
+        pooled.waiting.shift()?.();
+    }
+
+    private runChannel(
+        client: Client,
+        command: string,
+        timeout: number,
+        onOutput?: (chunk: OutputChunk) => void,
+        signal?: AbortSignal
+    ): Promise<ExecResult> {
+        return new Promise((resolve, reject) => {
+            client.exec(command, (err, stream) => {
+                if (err) {
+                    // Only this command fails (e.g. sshd's MaxSessions was reached);
+                    // a dead connection is dropped by its close event
+                    reject(err);
+                    return;
+                }
+
+                let stdout = '';
+                let stderr = '';
+                // Multibyte characters may be split across packets
+                const stdoutDecoder = new StringDecoder('utf8');
+                const stderrDecoder = new StringDecoder('utf8');
+                let timedOut = false;
+
+                const timer = timeout > 0
+                    ? setTimeout(() => {
+                        timedOut = true;
+                        stream.signal('KILL');
+                        stream.close();
+                    }, timeout)
+                    : undefined;
+                // Closing the channel ends the remote command
+                const abort = () => {
+                    stream.signal('KILL');
+                    stream.close();
+                };
+                if (signal?.aborted) abort();
+                signal?.addEventListener('abort', abort, { once: true });
+
+                stream.on('data', (data: Buffer) => {
+                    const text = stdoutDecoder.write(data);
+                    stdout += text;
+                    if (text) onOutput?.({ stream: 'stdout', data: text });
+                });
+                stream.stderr.on('data', (data: Buffer) => {
+                    const text = stderrDecoder.write(data);
+                    stderr += text;
+                    if (text) onOutput?.({ stream: 'stderr', data: text });
+                });
+                stream.on('close', (code: number | null) => {
+                    if (timer) clearTimeout(timer);
+                    signal?.removeEventListener('abort', abort);
+                    stdout += stdoutDecoder.end();
+                    stderr += stderrDecoder.end();
+                    resolve({
+                        // Match execa, which strips the final newline
+                        stdout: stdout.replace(/\r?\n$/, ''),
+                        stderr: stderr.replace(/\r?\n$/, ''),
+                        exitCode: timedOut ? 124 : (code ?? 1),
+                        timedOut
+                    });
+                });
+            });
+        });
+    }
+
+    private evictIdle(): void {
+        const now = Date.now();
+        for (const [key, pooled] of this.connections) {
+            if (pooled.activeChannels === 0 && now - pooled.lastUsedAt > this.idleTimeoutMs) {
+                logger.debug(`Closing idle SSH connection for ${key}`);
+                this.connections.delete(key);
+                pooled.client.end();
+            }
+        }
+    }
+}
+
+export { SshConnectionPool as default };
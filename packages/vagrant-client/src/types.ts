@@ -0,0 +1,92 @@
+import { z } from 'zod';
+import { Provisioner } from './vagrantfile.js';
+
+export const VMStatusSchema = z.enum([
+    'running',
+    'poweroff',
+    'aborted',
+    'saved',
+    'not_created',
+    'unknown'
+]);
+
+export type VMStatus = z.infer<typeof VMStatusSchema>;
+
+export interface VagrantVM {
+    name: string;
+    status: VMStatus;
+    directory?: string;
+    managedBy: 'vagrant' | 'native';
+}
+
+export interface VMCredentials {
+    username?: string;
+    password?: string;
+}
+
+/**
+ * Machine of a multi-machine environment
+ */
+export interface EnvironmentMachine {
+    name: string;
+    /** Overrides the environment's box */
+    box?: string;
+    cpu?: number;
+    memory?: number;
+    /** Address on the environment's private network (default: assigned from the subnet) */
+    ip?: string;
+    ports?: { guest: number; host: number }[];
+    /** Machines that must be up before this one */
+    dependsOn?: string[];
+    provisioners?: Provisioner[];
+}
+
+/**
+ * Output of one provisioner run by `vagrant provision`
+ */
+export interface ProvisionStep {
+    /** Provisioner name, or its type if unnamed */
+    name: string;
+    type?: string;
+    success: boolean;
+    output: string;
+}
+
+/**
+ * Outcome of a lifecycle operation (halt, start, reload, suspend, resume)
+ */
+export interface VMStateChange {
+    /** Whether the VM reached the target state */
+    success: boolean;
+    vmName: string;
+    previousState: VMStatus;
+    state: VMStatus;
+    message: string;
+}
+
+/**
+ * A guest file copied to the host by a download
+ */
+export interface DownloadedFile {
+    /** Path in the guest */
+    source: string;
+    /** Path on the host */
+    destination: string;
+    sizeBytes: number;
+    /** SHA-256 of the host copy, if checksums were verified */
+    sha256?: string;
+    /** Whether the host copy matches the guest's checksum (undefined when not checked) */
+    verified?: boolean;
+}
+
+/**
+ * Outcome of a download from a VM
+ */
+export interface DownloadResult {
+    /** Whether every file was copied (and verified, if requested) */
+    success: boolean;
+    vmName: string;
+    files: DownloadedFile[];
+    totalBytes: number;
+    message: string;
+}
@@ -0,0 +1,802 @@
+/**
+ * Vagrantfile - Typed model of the Vagrantfiles this server generates
+ *
+ * Managed VMs are described by a VagrantfileModel that is rendered to Ruby
+ * and parsed back when settings change, instead of patching the file with
+ * string templates and regexes. The parser understands everything the
+ * renderer emits (plus the layout of older generated files); statements it
+ * does not recognise are kept verbatim, in place, so hand edits survive a
+ * round trip. Files whose blocks it cannot follow are rejected.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+// ========================================
+// MODEL
+// ========================================
+
+/**
+ * `config.vm.network "forwarded_port", ...`
+ */
+export interface ForwardedPort {
+    guest: number;
+    host: number;
+    protocol?: 'tcp' | 'udp';
+    /** Rule name shown by VirtualBox */
+    id?: string;
+    hostIp?: string;
+    autoCorrect?: boolean;
+}
+
+/**
+ * `config.vm.network "private_network" | "public_network", ...`
+ */
+export interface NetworkConfig {
+    type: 'private_network' | 'public_network';
+    ip?: string;
+    /** Use DHCP instead of a static IP (`type: "dhcp"`) */
+    dhcp?: boolean;
+    /** Host interface to bridge (public networks) */
+    bridge?: string;
+}
+
+/**
+ * `config.vm.synced_folder host, guest, ...`
+ */
+export interface SyncedFolder {
+    hostPath: string;
+    guestPath: string;
+    /** Sync implementation, e.g. 'rsync', 'virtualbox', 'nfs' */
+    type?: string;
+    rsyncExclude?: string[];
+    disabled?: boolean;
+}
+
+/**
+ * `config.vm.provision ...`
+ */
+export interface Provisioner {
+    /** Optional name, used with `vagrant provision --provision-with` */
+    name?: string;
+    type: 'shell' | 'file' | 'ansible_local';
+    /** Shell: script content */
+    inline?: string;
+    /** Shell: path of a script on the host */
+    path?: string;
+    /** Shell: arguments passed to the script */
+    args?: string[];
+    /** Shell: run as root (Vagrant default: true) */
+    privileged?: boolean;
+    /** File: host source and guest destination */
+    source?: string;
+    destination?: string;
+    /** ansible_local: playbook path, relative to the synced project folder in the guest */
+    playbook?: string;
+    run?: 'once' | 'always' | 'never';
+}
+
+/**
+ * `config.vm.provider "virtualbox" do |vb| ... end`
+ */
+export interface ProviderSettings {
+    /** VirtualBox VM name */
+    name?: string;
+    /** Memory in MB */
+    memory?: number;
+    cpus?: number;
+    gui?: boolean;
+    /**
+     * `vb.customize` calls, e.g. `['modifyvm', ':id', '--vram', '16']`.
+     * The element `':id'` is written as the Ruby symbol `:id`.
+     */
+    customize?: string[][];
+}
+
+/**
+ * Settings that apply to one machine, either at the top level of the
+ * Vagrantfile or inside a `config.vm.define` block
+ */
+export interface MachineSettings {
+    boxVersion?: string;
+    hostname?: string;
+    provider: ProviderSettings;
+    forwardedPorts: ForwardedPort[];
+    networks: NetworkConfig[];
+    syncedFolders: SyncedFolder[];
+    provisioners: Provisioner[];
+    /** Statements the model does not cover, kept verbatim */
+    extraStatements?: ExtraStatement[];
+    /** Order the sections had in the parsed file; set along with extraStatements */
+    sectionOrder?: SettingsSection[];
+}
+
+/**
+ * Group of typed statements, rendered together. 'machines' stands for the
+ * `config.vm.define` blocks of the top level.
+ */
+export type SettingsSection = 'box' | 'provider' | 'network' | 'synced_folder' | 'provision' | 'machines';
+
+/**
+ * A statement the model does not cover (or a comment), kept where it stood
+ * relative to the typed sections
+ */
+export interface ExtraStatement {
+    /** Source lines with their original indentation */
+    lines: string[];
+    /** Section the statement followed; undefined if it preceded all of them */
+    after?: SettingsSection;
+}
+
+/**
+ * `config.vm.define "name" do |name| ... end`
+ */
+export interface MachineDefinition extends MachineSettings {
+    name: string;
+    /** Overrides the top-level box */
+    box?: string;
+    /** Default target of commands that take a machine name */
+    primary?: boolean;
+    /** Set to false to skip the machine on a plain `vagrant up` */
+    autostart?: boolean;
+}
+
+/**
+ * A Vagrantfile. Top-level settings apply to every machine; `machines`
+ * holds the `config.vm.define` blocks of a multi-machine environment.
+ */
+export interface VagrantfileModel extends MachineSettings {
+    box: string;
+    machines?: MachineDefinition[];
+}
+
+// ========================================
+// RUBY VALUES
+// ========================================
+
+type RubyValue = string | number | boolean | null | { symbol: string } | RubyValue[];
+
+/**
+ * Positional and keyword arguments of a Ruby method call
+ */
+interface RubyArguments {
+    positional: RubyValue[];
+    options: Record<string, RubyValue>;
+}
+
+function quote(value: string): string {
+    const escaped = value
+        .replace(/\\/g, '\\\\')
+        .replace(/"/g, '\\"')
+        .replace(/#\{/g, '\\#{')
+        .replace(/\n/g, '\\n')
+        .replace(/\r/g, '\\r')
+        .replace(/\t/g, '\\t');
+    return `"${escaped}"`;
+}
+
+function formatValue(value: RubyValue): string {
+    if (Array.isArray(value)) return `[${value.map(formatValue).join(', ')}]`;
+    if (value === null) return 'nil';
+    if (typeof value === 'object') return `:${value.symbol}`;
+    if (typeof value === 'string') return quote(value);
+    return String(value);
+}
+
+/**
+ * Formats keyword arguments, skipping undefined values
+ */
+function formatOptions(options: Record<string, RubyValue | undefined>): string {
+    return Object.entries(options)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => `${key}: ${formatValue(value as RubyValue)}`)
+        .join(', ');
+}
+
+/**
+ * Minimal reader for the argument lists the renderer produces:
+ * strings, numbers, booleans, nil, symbols, arrays and `key: value` pairs.
+ */
+class ArgumentReader {
+    private pos = 0;
+
+    constructor(private text: string) { }
+
+    read(): RubyArguments {
+        const args: RubyArguments = { positional: [], options: {} };
+        this.skipSpace();
+        while (this.pos < this.text.length) {
+            const key = this.text.slice(this.pos).match(/^([A-Za-z_]\w*):\s/);
+            if (key) {
+                this.pos += key[0].length;
+                args.options[key[1]] = this.readValue();
+            } else {
+                args.positional.push(this.readValue());
+            }
+            this.skipSpace();
+            if (this.text[this.pos] === ',') {
+                this.pos++;
+                this.skipSpace();
+            } else if (this.pos < this.text.length) {
+                throw new Error(`Unexpected '${this.text.slice(this.pos)}' in Vagrantfile arguments`);
+            }
+        }
+        return args;
+    }
+
+    private skipSpace(): void {
+        while (/\s/.test(this.text[this.pos] || '')) this.pos++;
+    }
+
+    private readValue(): RubyValue {
+        this.skipSpace();
+        const ch = this.text[this.pos];
+
+        if (ch === '"' || ch === '\'') return this.readString(ch);
+
+        if (ch === '[') {
+            this.pos++;
+            const items: RubyValue[] = [];
+            this.skipSpace();
+            while (this.text[this.pos] !== ']') {
+                if (this.pos >= this.text.length) throw new Error('Unterminated array in Vagrantfile');
+                items.push(this.readValue());
+                this.skipSpace();
+                if (this.text[this.pos] === ',') this.pos++;
+                this.skipSpace();
+            }
+            this.pos++;
+            return items;
+        }
+
+        const token = this.text.slice(this.pos).match(/^(:?[\w.\-]+)/);
+        if (!token) throw new Error(`Unexpected '${this.text.slice(this.pos)}' in Vagrantfile arguments`);
+        this.pos += token[0].length;
+        const word = token[1];
+        if (word.startsWith(':')) return { symbol: word.slice(1) };
+        if (word === 'true') return true;
+        if (word === 'false') return false;
+        if (word === 'nil') return null;
+        if (/^-?\d+(\.\d+)?$/.test(word)) return Number(word);
+        throw new Error(`Unsupported Ruby expression '${word}' in Vagrantfile`);
+    }
+
+    private readString(delimiter: string): string {
+        this.pos++;
+        let result = '';
+        while (this.pos < this.text.length) {
+            const ch = this.text[this.pos++];
+            if (ch === delimiter) return result;
+            if (ch !== '\\') {
+                result += ch;
+                continue;
+            }
+            const next = this.text[this.pos++];
+            if (delimiter === '\'') {
+                // Single-quoted strings only escape the quote and backslash
+                result += next === '\'' || next === '\\' ? next : `\\${next}`;
+            } else {
+                result += ({ n: '\n', r: '\r', t: '\t' } as Record<string, string>)[next] ?? next;
+            }
+        }
+        throw new Error('Unterminated string in Vagrantfile');
+    }
+}
+
+function parseArguments(text: string): RubyArguments {
+    return new ArgumentReader(text).read();
+}
+
+const asString = (value: RubyValue | undefined): string | undefined =>
+    value === undefined || value === null ? undefined : String(value);
+
+const asNumber = (value: RubyValue | undefined): number | undefined => {
+    if (value === undefined || value === null) return undefined;
+    const num = Number(value);
+    return isNaN(num) ? undefined : num;
+};
+
+const asBoolean = (value: RubyValue | undefined): boolean | undefined =>
+    typeof value === 'boolean' ? value : undefined;
+
+const asStringArray = (value: RubyValue | undefined): string[] | undefined =>
+    Array.isArray(value) ? value.map(v => (typeof v === 'object' && v !== null && !Array.isArray(v)) ? `:${v.symbol}` : String(v)) : undefined;
+
+// ========================================
+// RENDERING
+// ========================================
+
+/**
+ * Creates a model with Vagrant's defaults for everything but the box
+ */
+export function createVagrantfileModel(box: string, provider: ProviderSettings = {}): VagrantfileModel {
+    return { box, ...createMachineSettings(provider) };
+}
+
+/**
+ * Creates empty per-machine settings
+ */
+export function createMachineSettings(provider: ProviderSettings = {}): MachineSettings {
+    return {
+        provider,
+        forwardedPorts: [],
+        networks: [],
+        syncedFolders: [],
+        provisioners: []
+    };
+}
+
+function renderProvisioner(p: Provisioner, variable: string): string {
+    const head = p.name ? `${quote(p.name)}, type: ${quote(p.type)}` : quote(p.type);
+    const options = p.type === 'file'
+        ? formatOptions({ source: p.source, destination: p.destination, run: p.run })
+        : p.type === 'ansible_local'
+            ? formatOptions({ playbook: p.playbook, run: p.run })
+            : formatOptions({ inline: p.inline, path: p.path, args: p.args, privileged: p.privileged, run: p.run });
+    return `${variable}.vm.provision ${head}${options ? `, ${options}` : ''}`;
+}
+
+/**
+ * Sections in the order they are rendered when the file gives none
+ */
+const SECTION_ORDER: SettingsSection[] = ['box', 'provider', 'network', 'synced_folder', 'provision', 'machines'];
+
+/**
+ * Renders the typed settings of one machine, one group of statements per
+ * section
+ */
+function renderMachine(settings: MachineSettings & { box?: string }, variable: string): Map<SettingsSection, string[]> {
+    const vm = `${variable}.vm`;
+    const sections = new Map<SettingsSection, string[]>();
+
+    sections.set('box', [
+        ...(settings.box ? [`${vm}.box = ${quote(settings.box)}`] : []),
+        ...(settings.boxVersion ? [`${vm}.box_version = ${quote(settings.boxVersion)}`] : []),
+        ...(settings.hostname ? [`${vm}.hostname = ${quote(settings.hostname)}`] : [])
+    ]);
+
+    const vb = settings.provider;
+    const providerLines = [
+        ...(vb.name !== undefined ? [`  vb.name = ${quote(vb.name)}`] : []),
+        ...(vb.memory !== undefined ? [`  vb.memory = ${quote(String(vb.memory))}`] : []),
+        ...(vb.cpus !== undefined ? [`  vb.cpus = ${vb.cpus}`] : []),
+        ...(vb.gui !== undefined ? [`  vb.gui = ${vb.gui}`] : []),
+        ...(vb.customize || []).map(args =>
+            `  vb.customize [${args.map(a => a.startsWith(':') ? a : quote(a)).join(', ')}]`)
+    ];
+    if (providerLines.length > 0) {
+        sections.set('provider', [`${vm}.provider "virtualbox" do |vb|`, ...providerLines, 'end']);
+    }
+
+    sections.set('network', [
+        ...settings.forwardedPorts.map(p => `${vm}.network "forwarded_port", ${formatOptions({
+            guest: p.guest,
+            host: p.host,
+            protocol: p.protocol,
+            id: p.id,
+            host_ip: p.hostIp,
+            auto_correct: p.autoCorrect
+        })}`),
+        ...settings.networks.map(n => {
+            const options = formatOptions({
+                type: n.dhcp ? 'dhcp' : undefined,
+                ip: n.ip,
+                bridge: n.bridge
+            });
+            return `${vm}.network ${quote(n.type)}${options ? `, ${options}` : ''}`;
+        })
+    ]);
+
+    sections.set('synced_folder', settings.syncedFolders.map(f => {
+        const options = formatOptions({
+            type: f.type,
+            rsync__exclude: f.rsyncExclude,
+            disabled: f.disabled
+        });
+        return `${vm}.synced_folder ${quote(f.hostPath.replace(/\\/g, '/'))}, ${quote(f.guestPath)}${options ? `, ${options}` : ''}`;
+    }));
+
+    sections.set('provision', settings.provisioners.map(p => renderProvisioner(p, variable)));
+
+    return sections;
+}
+
+/**
+ * Lays out rendered sections in the parsed file's order, each followed by
+ * the extra statements that followed it there, with blank lines between
+ * sections. Sections the file did not have go to their default place.
+ * @param sections - Indented statements per section
+ */
+function layoutSections(settings: MachineSettings, sections: Map<SettingsSection, string[]>): string[] {
+    const order = [...(settings.sectionOrder || [])];
+    for (const section of SECTION_ORDER) {
+        if (order.includes(section)) continue;
+        const previous = SECTION_ORDER.slice(0, SECTION_ORDER.indexOf(section));
+        const index = order.reduce((last, s, i) => previous.includes(s) ? i : last, -1);
+        order.splice(index + 1, 0, section);
+    }
+
+    const extras = settings.extraStatements || [];
+    // Unknown statements keep their original indentation
+    const extrasAfter = (section?: SettingsSection) => extras.filter(e => e.after === section).flatMap(e => e.lines);
+    const blocks = order
+        .map(section => [...(sections.get(section) || []), ...extrasAfter(section)])
+        .filter(block => block.length > 0);
+
+    // Leading statements (e.g. a comment) stay attached to the first section
+    const lines: string[] = [...extrasAfter(undefined)];
+    blocks.forEach((block, i) => {
+        if (i > 0) lines.push('');
+        lines.push(...block);
+    });
+    return lines;
+}
+
+const indentLines = (lines: string[], indent: string): string[] => lines.map(line => `${indent}${line}`);
+
+/**
+ * Serializes a model to Vagrantfile source
+ */
+export function renderVagrantfile(model: VagrantfileModel): string {
+    const sections = renderMachine(model, 'config');
+    for (const [section, lines] of sections) sections.set(section, indentLines(lines, '  '));
+
+    const defines: string[] = [];
+    for (const machine of model.machines || []) {
+        const variable = machine.name.replace(/\W/g, '_');
+        const options = formatOptions({ primary: machine.primary, autostart: machine.autostart });
+        const inner = renderMachine(machine, variable);
+        for (const [section, lines] of inner) inner.set(section, indentLines(lines, '    '));
+        if (defines.length > 0) defines.push('');
+        defines.push(
+            `  config.vm.define ${quote(machine.name)}${options ? `, ${options}` : ''} do |${variable}|`,
+            ...layoutSections(machine, inner),
+            '  end'
+        );
+    }
+    sections.set('machines', defines);
+    const body = layoutSections(model, sections);
+
+    return [
+        '# -*- mode: ruby -*-',
+        '# Generated by virtualbox-mcp; settings are rewritten when the VM is reconfigured.',
+        'Vagrant.configure("2") do |config|',
+        ...body,
+        'end',
+        ''
+    ].join('\n');
+}
+
+// ========================================
+// PARSING
+// ========================================
+
+/**
+ * Code of a Ruby line with the contents of string literals blanked and the
+ * comment removed, so that keywords and brackets in them are not counted.
+ * Code characters keep their column.
+ */
+function stripLiterals(line: string): string {
+    let code = '';
+    let quoteChar: string | undefined;
+    for (let i = 0; i < line.length; i++) {
+        const ch = line[i];
+        if (quoteChar) {
+            if (ch === '\\' && i + 1 < line.length) {
+                code += '  ';
+                i++;
+            } else if (ch === quoteChar) {
+                quoteChar = undefined;
+                code += ch;
+            } else {
+                code += ' ';
+            }
+        } else if (ch === '#') {
+            break;
+        } else {
+            if (ch === '"' || ch === '\'' || ch === '`') quoteChar = ch;
+            code += ch;
+        }
+    }
+    return code;
+}
+
+/**
+ * Keywords that open a block closed by `end` when they start an expression;
+ * after an expression `if`, `unless`, `while` and `until` are modifiers
+ */
+const BLOCK_KEYWORDS = /(^|[=(;|&]\s*|\bthen\s+|\belse\s+)(if|unless|while|until|case|begin|def|class|module)\b(?!:)/g;
+
+/**
+ * Splits the body of the configure block into statements: lines continued
+ * after a trailing comma or backslash, bracketed lists, keyword and `do`
+ * blocks and heredocs each form one statement. Comments are statements of
+ * their own so that they keep their place.
+ * @throws If a block or heredoc is not closed within the lines
+ */
+function splitStatements(lines: string[]): string[][] {
+    const statements: string[][] = [];
+    let current: string[] = [];
+    let depth = 0;
+    let brackets = 0;
+    /** Terminators of the heredocs still open, with whether they may be indented */
+    const heredocs: Array<{ id: string; indented: boolean }> = [];
+    let blockComment = false;
+
+    lines.forEach((raw, index) => {
+        const line = raw.trim();
+        if (current.length === 0 && line === '') return;
+        current.push(raw);
+
+        if (blockComment) {
+            blockComment = !/^=end\b/.test(raw);
+        } else if (heredocs.length > 0) {
+            const heredoc = heredocs[0];
+            if ((heredoc.indented ? line : raw) === heredoc.id) heredocs.shift();
+        } else if (/^=begin\b/.test(raw)) {
+            blockComment = true;
+        } else {
+            const code = stripLiterals(raw);
+            for (const match of raw.matchAll(/<<([~-]?)(["'`]?)([A-Za-z_]\w*)\2/g)) {
+                // Skips '<<' inside strings and comments
+                if (code.startsWith('<<', match.index)) heredocs.push({ id: match[3], indented: match[1] !== '' });
+            }
+
+            const keywords = Array.from(code.trim().matchAll(BLOCK_KEYWORDS), m => m[2]);
+            depth += keywords.length;
+            // `while cond do` opens a single block
+            const loopDo = keywords.some(k => k === 'while' || k === 'until');
+            depth += Array.from(code.matchAll(/(?<![.\w:])do\b(?!:)/g)).length - (loopDo && /\bdo\b/.test(code) ? 1 : 0);
+            depth -= Array.from(code.matchAll(/(?<![.\w:])end\b(?!:)/g)).length;
+            brackets += (code.match(/[([{]/g) || []).length - (code.match(/[)\]}]/g) || []).length;
+            if (depth < 0 || brackets < 0) {
+                throw new Error(`Vagrantfile has an unmatched '${line}' (line ${index + 1} of the configure block)`);
+            }
+        }
+
+        const continued = /[,\\]$/.test(stripLiterals(raw).trim());
+        if (depth === 0 && brackets === 0 && heredocs.length === 0 && !blockComment && !continued) {
+            statements.push(current);
+            current = [];
+        }
+    });
+
+    if (current.length > 0) {
+        throw new Error(`Vagrantfile has a block the parser cannot follow, starting at '${current[0].trim()}'`);
+    }
+    return statements;
+}
+
+function parseProvider(settings: MachineSettings, body: string[]): boolean {
+    for (const raw of body) {
+        const line = raw.trim();
+        if (line === '' || line.startsWith('#')) continue;
+        const assign = line.match(/^vb\.(name|memory|cpus|gui)\s*=\s*(.+)$/);
+        if (assign) {
+            const value = parseArguments(assign[2]).positional[0];
+            if (assign[1] === 'name') settings.provider.name = asString(value);
+            if (assign[1] === 'memory') settings.provider.memory = asNumber(value);
+            if (assign[1] === 'cpus') settings.provider.cpus = asNumber(value);
+            if (assign[1] === 'gui') settings.provider.gui = asBoolean(value);
+            continue;
+        }
+        const customize = line.match(/^vb\.customize\s+(.+)$/);
+        if (customize) {
+            const args = asStringArray(parseArguments(customize[1]).positional[0]);
+            if (args) {
+                settings.provider.customize = [...(settings.provider.customize || []), args];
+                continue;
+            }
+        }
+        return false;
+    }
+    return true;
+}
+
+/**
+ * Adds a statement to the settings
+ * @returns The section it belongs to, or undefined if the model does not cover it
+ */
+function parseStatement(settings: MachineSettings & { box?: string }, statement: string[], variable: string): SettingsSection | undefined {
+    const text = statement.map(l => l.trim()).join(' ');
+    const vm = `${variable}\\.vm`;
+
+    const assign = text.match(new RegExp(`^${vm}\\.(box|box_version|hostname)\\s*=\\s*(.+)$`));
+    if (assign) {
+        const value = asString(parseArguments(assign[2]).positional[0]) || '';
+        if (assign[1] === 'box') settings.box = value;
+        if (assign[1] === 'box_version') settings.boxVersion = value;
+        if (assign[1] === 'hostname') settings.hostname = value;
+        return 'box';
+    }
+
+    if (new RegExp(`^${vm}\\.provider\\s+["']virtualbox["']\\s+do\\s*\\|vb\\|$`).test(statement[0].trim())) {
+        return parseProvider(settings, statement.slice(1, -1)) ? 'provider' : undefined;
+    }
+
+    const call = text.match(new RegExp(`^${vm}\\.(network|synced_folder|provision)\\s+(.+)$`));
+    if (!call) return undefined;
+    const { positional, options } = parseArguments(call[2]);
+
+    if (call[1] === 'network' && positional[0] === 'forwarded_port') {
+        const protocol = asString(options.protocol);
+        settings.forwardedPorts.push({
+            guest: asNumber(options.guest) ?? 0,
+            host: asNumber(options.host) ?? 0,
+            protocol: protocol === 'tcp' || protocol === 'udp' ? protocol : undefined,
+            id: asString(options.id),
+            hostIp: asString(options.host_ip),
+            autoCorrect: asBoolean(options.auto_correct)
+        });
+        return 'network';
+    }
+
+    if (call[1] === 'network' && (positional[0] === 'private_network' || positional[0] === 'public_network')) {
+        settings.networks.push({
+            type: positional[0],
+            ip: asString(options.ip),
+            dhcp: options.type === 'dhcp' ? true : undefined,
+            bridge: asString(options.bridge)
+        });
+        return 'network';
+    }
+
+    if (call[1] === 'synced_folder') {
+        settings.syncedFolders.push({
+            hostPath: asString(positional[0]) || '.',
+            guestPath: asString(positional[1]) || '/vagrant',
+            type: asString(options.type),
+            rsyncExclude: asStringArray(options.rsync__exclude),
+            disabled: asBoolean(options.disabled)
+        });
+        return 'synced_folder';
+    }
+
+    if (call[1] === 'provision') {
+        // Either `provision "shell", ...` or `provision "name", type: "shell", ...`
+        const named = options.type !== undefined;
+        const type = asString(named ? options.type : positional[0]);
+        if (type !== 'shell' && type !== 'file' && type !== 'ansible_local') return undefined;
+        const run = asString(options.run);
+        settings.provisioners.push({
+            name: named ? asString(positional[0]) : undefined,
+            type,
+            inline: asString(options.inline),
+            path: asString(options.path),
+            args: asStringArray(options.args),
+            privileged: asBoolean(options.privileged),
+            source: asString(options.source),
+            destination: asString(options.destination),
+            playbook: asString(options.playbook),
+            run: run === 'once' || run === 'always' || run === 'never' ? run : undefined
+        });
+        return 'provision';
+    }
+
+    return undefined;
+}
+
+/**
+ * Strips undefined properties so parsed models compare cleanly with built ones
+ */
+function compact<T extends object>(items: T[]): T[] {
+    return items.map(item => Object.fromEntries(
+        Object.entries(item).filter(([, value]) => value !== undefined)
+    ) as T);
+}
+
+/**
+ * Parses the statements of a configure or define block into settings
+ */
+function parseBody(settings: MachineSettings & { box?: string }, lines: string[], variable: string, machines?: MachineDefinition[]): void {
+    const extraStatements: ExtraStatement[] = [];
+    const sectionOrder: SettingsSection[] = [];
+
+    for (const statement of splitStatements(lines)) {
+        let section: SettingsSection | undefined;
+        try {
+            section = machines !== undefined && parseDefine(machines, statement)
+                ? 'machines'
+                : parseStatement(settings, statement, variable);
+        } catch {
+            // Expressions the reader does not support are kept verbatim
+        }
+        if (!section) {
+            extraStatements.push({ lines: statement, after: sectionOrder[sectionOrder.length - 1] });
+        } else if (sectionOrder[sectionOrder.length - 1] !== section) {
+            // A section split by other statements is rendered where it began
+            if (!sectionOrder.includes(section)) sectionOrder.push(section);
+        }
+    }
+
+    settings.forwardedPorts = compact(settings.forwardedPorts);
+    settings.networks = compact(settings.networks);
+    settings.syncedFolders = compact(settings.syncedFolders);
+    settings.provisioners = compact(settings.provisioners);
+    if (extraStatements.length > 0) {
+        settings.extraStatements = extraStatements;
+        settings.sectionOrder = sectionOrder;
+    }
+}
+
+/**
+ * Parses a `config.vm.define "name" do |name| ... end` block
+ */
+function parseDefine(machines: MachineDefinition[], statement: string[]): boolean {
+    const head = statement[0].trim().match(/^config\.vm\.define\s+(.+?)\s+do\s*\|(\w+)\|$/);
+    if (!head) return false;
+
+    const { positional, options } = parseArguments(head[1]);
+    const name = asString(positional[0]);
+    if (!name) return false;
+
+    const machine: MachineDefinition = { name, ...createMachineSettings() };
+    parseBody(machine, statement.slice(1, -1), head[2]);
+    const primary = asBoolean(options.primary);
+    const autostart = asBoolean(options.autostart);
+    if (primary !== undefined) machine.primary = primary;
+    if (autostart !== undefined) machine.autostart = autostart;
+    machines.push(machine);
+    return true;
+}
+
+/**
+ * Parses Vagrantfile source into a model
+ * @throws If the file has no `Vagrant.configure` block or no box
+ */
+export function parseVagrantfile(content: string): VagrantfileModel {
+    const lines = content.split(/\r?\n/);
+    const start = lines.findIndex(l => /^\s*Vagrant\.configure\(\s*["']2["']\s*\)\s+do\s*\|config\|/.test(l));
+    let end = -1;
+    for (let i = lines.length - 1; i > start; i--) {
+        if (/^\s*end\s*$/.test(lines[i])) {
+            end = i;
+            break;
+        }
+    }
+    if (start === -1 || end === -1) {
+        throw new Error('Vagrantfile has no Vagrant.configure("2") block');
+    }
+
+    const model = createVagrantfileModel('');
+    const machines: MachineDefinition[] = [];
+    parseBody(model, lines.slice(start + 1, end), 'config', machines);
+
+    if (!model.box) {
+        throw new Error('Vagrantfile does not set config.vm.box');
+    }
+    if (machines.length > 0) model.machines = machines;
+    return model;
+}
+
+// ========================================
+// FILE HELPERS
+// ========================================
+
+/**
+ * Reads and parses `<vmDir>/Vagrantfile`, or returns undefined if it does not exist
+ */
+export function readVagrantfile(vmDir: string): VagrantfileModel | undefined {
+    const vagrantfilePath = path.join(vmDir, 'Vagrantfile');
+    if (!fs.existsSync(vagrantfilePath)) return undefined;
+    return parseVagrantfile(fs.readFileSync(vagrantfilePath, 'utf8'));
+}
+
+/**
+ * Renders a model to `<vmDir>/Vagrantfile`
+ */
+export function writeVagrantfile(vmDir: string, model: VagrantfileModel): void {
+    fs.writeFileSync(path.join(vmDir, 'Vagrantfile'), renderVagrantfile(model));
+}
+
+/**
+ * Applies an edit to `<vmDir>/Vagrantfile` and writes it back
+ * @returns false if the directory has no Vagrantfile
+ */
+export function updateVagrantfile(vmDir: string, edit: (model: VagrantfileModel) => void): boolean {
+    const model = readVagrantfile(vmDir);
+    if (!model) return false;
+    edit(model);
+    writeVagrantfile(vmDir, model);
+    return true;
+}